@@ -1,11 +1,20 @@
-const DEFAULT_OPTIONS: Required<ScanOptions> = {
-  includeShadowDom: true,
-  maxDepth: 7,
-  iframeTraversal: true,
-};
+import { FormTarget, insideForm, ScanOptions, ScannedForm, scanForms } from './domscanner.js';
+import { describeHealing, fieldKit, fieldLocator } from './fieldfingerprint.js';
+import { checkTargets, mappingRequests, TargetLocation } from './mappingcheck.js';
+import { Mapping, MappingRule, resolveFieldValue } from './mappingengine.js';
+import {
+  describeUnmatched,
+  lookupDictionary,
+  matchOption,
+  MatchOptions,
+  OptionCandidate,
+  radioFallback,
+} from './optionmatcher.js';
+import type { TemplateContext } from './valuetemplates.js';
 
-let cachedFields: FieldInfo[] | null = null;
+let cachedForms: ScannedForm[] | null = null;
 let observer: MutationObserver | null = null;
+const fields = fieldKit();
 
 /* ---------- Utility --------------------------------------------------------------------- */
 const runtime = ((): chrome.runtime | undefined => {
@@ -29,65 +38,36 @@ function delay(ms: number): Promise<void> {
   return new Promise(res => setTimeout(res, ms));
 }
 
-function uniqueSelector(el: Element, root: Document | ShadowRoot = document): string {
-  if (el.id && root.querySelectorAll(`#${CSS.escape(el.id)}`).length === 1) {
-    return `#${CSS.escape(el.id)}`;
-  }
-
-  const paths: string[] = [];
-  let element: Element | null = el;
-  while (element && element !== root) {
-    const tag = element.tagName.toLowerCase();
-    let selector = tag;
-    if (element.className) {
-      const className = element.className
-        .toString()
-        .split(/\s+/)
-        .filter(Boolean)
-        .map(cls => `.${CSS.escape(cls)}`)
-        .join('');
-      if (className) {
-        selector += className;
-        if (root.querySelectorAll(selector).length === 1) {
-          paths.unshift(selector);
-          break;
-        }
-      }
-    }
+/** Human-like pause before a field, honouring the rule's delay range */
+function fieldDelay(rule?: MappingRule): Promise<void> {
+  const min = rule?.minDelayMs ?? (rule?.maxDelayMs === undefined ? 100 : 0);
+  const max = Math.max(min, rule?.maxDelayMs ?? (rule?.minDelayMs === undefined ? 350 : min));
+  return delay(min + Math.random() * (max - min));
+}
 
-    const parent = element.parentElement;
-    if (!parent) break;
+/** Deep selector (see queryDeepAll) through the rule's or form's frames and shadow hosts */
+function deepSelector(selector: string, location?: TargetLocation): string {
+  return [...(location?.framePath ?? []), ...(location?.shadowPath ?? []), selector].join(' >>> ');
+}
 
-    const siblings = Array.from(parent.children).filter(
-      sib => sib.tagName === element!.tagName
-    );
-    if (siblings.length > 1) {
-      const index = siblings.indexOf(element) + 1;
-      selector += `:nth-of-type(${index})`;
-    }
+function isRadio(el: Element): el is HTMLInputElement {
+  return el instanceof HTMLInputElement && el.type === 'radio';
+}
 
-    paths.unshift(selector);
-    element = parent;
-  }
-  return paths.join(' > ');
+/** Every radio sharing `el`'s name within its form (or root). */
+function radioGroup(el: HTMLInputElement): HTMLInputElement[] {
+  if (!el.name) return [el];
+  const root: ParentNode = el.form ?? (el.getRootNode() as ParentNode);
+  return Array.from(root.querySelectorAll<HTMLInputElement>('input[type="radio"]')).filter(
+    r => r.name === el.name
+  );
 }
 
-function extractLabelText(el: Element): string | undefined {
-  if (
-    el instanceof HTMLInputElement ||
-    el instanceof HTMLSelectElement ||
-    el instanceof HTMLTextAreaElement
-  ) {
-    if (el.id) {
-      const l = document.querySelector(`label[for="${CSS.escape(el.id)}"]`);
-      if (l) return (l.textContent || '').trim();
-    }
-  }
-  // fallback: previous sibling label
-  let prev = el.previousElementSibling;
-  if (prev && prev.tagName.toLowerCase() === 'label')
-    return (prev.textContent || '').trim();
-  return undefined;
+function radioCandidate(el: HTMLInputElement): OptionCandidate {
+  return {
+    value: el.value,
+    label: (el.labels?.[0]?.textContent ?? el.getAttribute('aria-label') ?? '').trim(),
+  };
 }
 
 /* ---------- Deep Query Helper ----------------------------------------------------------- */
@@ -138,105 +118,111 @@ function queryDeepAll(deepSelector: string): Element[] {
 }
 
 /* ---------- DOM Scanning ---------------------------------------------------------------- */
-export function scanDOM(options: ScanOptions = {}): FieldInfo[] {
-  const cfg: Required<ScanOptions> = { ...DEFAULT_OPTIONS, ...options };
-  const visited = new WeakSet<Node>();
-  const results: FieldInfo[] = [];
-
-  function traverse(
-    node: Node,
-    depth: number,
-    rootForSelector: Document | ShadowRoot,
-    pathParts: string[]
-  ) {
-    if (depth > cfg.maxDepth || visited.has(node)) return;
-    visited.add(node);
-
-    if (node.nodeType === Node.ELEMENT_NODE) {
-      const el = node as Element;
-      if (
-        el instanceof HTMLInputElement ||
-        el instanceof HTMLSelectElement ||
-        el instanceof HTMLTextAreaElement ||
-        (el as HTMLElement).isContentEditable
-      ) {
-        const selector = uniqueSelector(el, rootForSelector);
-        const deepSelector =
-          pathParts.length > 0
-            ? `${pathParts.join(' >>> ')} >>> ${selector}`
-            : selector;
-        const info: FieldInfo = {
-          selector: deepSelector,
-          tag: el.tagName.toLowerCase(),
-          type: (el as HTMLInputElement).type || el.tagName.toLowerCase(),
-          nameAttr: (el as HTMLInputElement).name || undefined,
-          label: extractLabelText(el),
-        };
-        results.push(info);
-      }
-
-      // Shadow DOM
-      if (cfg.includeShadowDom && (el as HTMLElement).shadowRoot) {
-        const hostSelector = uniqueSelector(el, rootForSelector);
-        traverse(
-          (el as HTMLElement).shadowRoot as ShadowRoot,
-          depth + 1,
-          (el as HTMLElement).shadowRoot!,
-          [...pathParts, hostSelector]
-        );
-      }
-
-      // Iframes
-      if (cfg.iframeTraversal && el.tagName === 'IFRAME') {
-        const iframe = el as HTMLIFrameElement;
-        if (isSameOriginIframe(iframe) && iframe.contentDocument) {
-          const iframeSelector = uniqueSelector(iframe, rootForSelector);
-          traverse(
-            iframe.contentDocument,
-            depth + 1,
-            iframe.contentDocument,
-            [...pathParts, iframeSelector]
-          );
-        }
-      }
-    }
-
-    // Children
-    node.childNodes.forEach(child =>
-      traverse(child, depth + 1, rootForSelector, pathParts)
-    );
-  }
-
-  traverse(document, 0, document, []);
-  cachedFields = results;
-  sendResults({ type: 'scan-complete', fields: results });
+export function scanDOM(options: ScanOptions = {}): ScannedForm[] {
+  const results = scanForms(options, fields);
+  cachedForms = results;
+  sendResults({ type: 'scan-complete', forms: results });
   return results;
 }
 
 /* ---------- Form Filling ---------------------------------------------------------------- */
+/** Outcome of one row, sent as `fill-complete` and returned to the sender of `fill` */
+export interface FillReport {
+  success: boolean;
+  errors?: string[];
+  /** Fields found by their fingerprint because the selector no longer matched */
+  healed?: string[];
+  /** The form's submit control was clicked */
+  submitted?: boolean;
+}
+
+/**
+ * Fills one row using a MappingEngine mapping (selector -> column or rule).
+ * With a `form`, only fields inside it are filled and its submit control is
+ * clicked when every field succeeded.
+ */
 export async function fillForm(
   mapping: Mapping,
-  rowData: RowData
-): Promise<void> {
+  rowData: RowData,
+  context: TemplateContext = {},
+  form?: FormTarget
+): Promise<FillReport> {
   const pending: Promise<void>[] = [];
-  Object.entries(mapping).forEach(([column, selector]) => {
-    const value = rowData[column];
+  const errors: string[] = [];
+  const healed: string[] = [];
+  let container: Element | undefined;
+  if (form) {
+    container = queryDeepAll(deepSelector(form.selector, form))[0];
+    if (!container) {
+      const report: FillReport = { success: false, errors: [`Form "${form.selector}" not found`] };
+      sendResults({ type: 'fill-complete', ...report });
+      return report;
+    }
+  }
+  const inScope = (els: Element[]) => (container ? els.filter(el => insideForm(container!, el)) : els);
+  Object.entries(mapping).forEach(([selector, target]) => {
+    let value: string | undefined;
+    try {
+      value = resolveFieldValue(target, rowData, context);
+    } catch (err) {
+      errors.push(`Field "${selector}" -> ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
     if (value === undefined) return;
 
-    const targets = queryDeepAll(selector);
+    const rule = typeof target === 'string' ? undefined : target;
+    const matchOpts: MatchOptions = { dictionary: rule?.options, fuzzy: rule?.fuzzy };
+    let targets = inScope(queryDeepAll(deepSelector(selector, rule)));
+    // The selector no longer matches: fall back to the recorded fingerprint
+    if (!targets.length && rule?.fingerprint) {
+      const found = fields.locate(fieldLocator(selector, rule));
+      if (found && inScope(found.elements).length) {
+        targets = inScope(found.elements);
+        healed.push(describeHealing(selector, found.strategy, rule.fingerprint));
+      }
+    }
+
+    // Radios are chosen once per group rather than compared one by one
+    const radios = targets.filter(isRadio);
+    if (radios.length) {
+      const group = radios.length > 1 ? radios : radioGroup(radios[0]);
+      const candidates = group.map(radioCandidate);
+      const match = matchOption(value, candidates, matchOpts);
+      const fallback = match ? null : radioFallback(value, matchOpts.dictionary);
+      let pick: HTMLInputElement | null = match ? group[match.index] : null;
+      // Only a lone mapped radio can stand for a true word
+      if (fallback === 'check' && radios.length === 1) pick = radios[0];
+      if (!pick && fallback !== 'leave') {
+        errors.push(`Field "${selector}" -> ${describeUnmatched(value, candidates)}`);
+      } else if (pick) {
+        pending.push(
+          (async () => {
+            await fieldDelay(rule);
+            if (!pick.checked) {
+              pick.checked = true;
+              pick.dispatchEvent(new Event('input', { bubbles: true }));
+              pick.dispatchEvent(new Event('change', { bubbles: true }));
+            }
+          })()
+        );
+      }
+    }
+
     targets.forEach(el => {
+      if (isRadio(el)) return;
       pending.push(
         (async () => {
           // Simulate human delay
-          await delay(100 + Math.random() * 250);
+          await fieldDelay(rule);
 
-          if (el instanceof HTMLInputElement) {
+          if (rule?.type === 'button') {
+            const strVal = (lookupDictionary(value, matchOpts.dictionary) ?? value).toLowerCase();
+            if (['true', '1', 'on', 'yes'].includes(strVal)) (el as HTMLElement).click();
+          } else if (el instanceof HTMLInputElement) {
             if (el.type === 'checkbox') {
               let shouldCheck = false;
-              if (Array.isArray(value)) {
-                shouldCheck = value.map(String).includes(el.value || 'on');
-              } else if (typeof value === 'string') {
-                const strVal = value.toLowerCase();
+              if (typeof value === 'string') {
+                const strVal = (lookupDictionary(value, matchOpts.dictionary) ?? value).toLowerCase();
                 shouldCheck =
                   strVal === el.value.toLowerCase() ||
                   strVal === 'true' ||
@@ -252,13 +238,6 @@ export async function fillForm(
                 el.dispatchEvent(new Event('input', { bubbles: true }));
                 el.dispatchEvent(new Event('change', { bubbles: true }));
               }
-            } else if (el.type === 'radio') {
-              const match = String(value) === el.value;
-              if (match && !el.checked) {
-                el.checked = true;
-                el.dispatchEvent(new Event('input', { bubbles: true }));
-                el.dispatchEvent(new Event('change', { bubbles: true }));
-              }
             } else {
               el.value = String(value);
               el.dispatchEvent(new Event('input', { bubbles: true }));
@@ -269,7 +248,16 @@ export async function fillForm(
             el.dispatchEvent(new Event('input', { bubbles: true }));
             el.dispatchEvent(new Event('change', { bubbles: true }));
           } else if (el instanceof HTMLSelectElement) {
-            el.value = String(value);
+            const candidates = Array.from(el.options).map(o => ({
+              value: o.value,
+              label: (o.textContent || '').trim(),
+            }));
+            const match = matchOption(String(value), candidates, matchOpts);
+            if (!match) {
+              errors.push(`Field "${selector}" -> ${describeUnmatched(String(value), candidates)}`);
+              return;
+            }
+            el.selectedIndex = match.index;
             el.dispatchEvent(new Event('change', { bubbles: true }));
           } else if ((el as HTMLElement).isContentEditable) {
             (el as HTMLElement).innerText = String(value);
@@ -282,7 +270,24 @@ export async function fillForm(
   });
 
   await Promise.all(pending);
-  sendResults({ type: 'fill-complete', success: true });
+  let submitted = false;
+  if (form?.submit && errors.length === 0) {
+    const control = inScope(queryDeepAll(deepSelector(form.submit, form)))[0];
+    if (control) {
+      (control as HTMLElement).click();
+      submitted = true;
+    } else {
+      errors.push(`Submit control "${form.submit}" not found`);
+    }
+  }
+  const report: FillReport = {
+    success: errors.length === 0,
+    ...(errors.length ? { errors } : {}),
+    ...(healed.length ? { healed } : {}),
+    ...(submitted ? { submitted } : {}),
+  };
+  sendResults({ type: 'fill-complete', ...report });
+  return report;
 }
 
 /* ---------- Mutation Observation --------------------------------------------------------- */
@@ -319,10 +324,22 @@ export function initContentScript(): void {
           case 'scan':
             sendResponse(scanDOM(msg.options));
             break;
-          case 'fill':
-            await fillForm(msg.mapping, msg.rowData);
-            sendResponse({ ok: true });
+          case 'check':
+            sendResponse(checkTargets(mappingRequests(msg.mapping)));
             break;
+          case 'fill': {
+            // The sender resolves the mapping: saved mappings sit in a vault only the popup unlocks
+            const mapping: Mapping | undefined = msg.mapping;
+            const form: FormTarget | undefined = msg.form;
+            if (!mapping) {
+              const report: FillReport = { success: false, errors: ['The fill request carries no mapping'] };
+              sendResults({ type: 'fill-complete', ...report });
+              sendResponse(report);
+              break;
+            }
+            sendResponse(await fillForm(mapping, msg.rowData, msg.context, form));
+            break;
+          }
           default:
             break;
         }
@@ -0,0 +1,92 @@
+/**
+ * Streaming RFC 4180 parser. Yields one array of fields per record;
+ * quoted fields may contain delimiters, `""` escapes and line breaks.
+ * A leading UTF-8 BOM is stripped and both CRLF and LF are accepted.
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string | Buffer>,
+  delimiter = ',',
+): AsyncIterable<string[]> {
+  if (delimiter.length !== 1 || delimiter === '"' || /[\r\n]/.test(delimiter)) {
+    throw new Error(`Invalid CSV delimiter ${JSON.stringify(delimiter)}.`);
+  }
+
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  /* A quote just closed; the next char decides between `""` and end of field */
+  let quotePending = false;
+  /* Last char was CR outside quotes; swallow a following LF */
+  let crPending = false;
+  let first = true;
+
+  for await (const chunk of chunks) {
+    let text = typeof chunk === 'string' ? chunk : chunk.toString('utf8');
+    if (first) {
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      first = false;
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (crPending) {
+        crPending = false;
+        if (ch === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (ch === '"') {
+          field += '"';
+          inQuotes = true;
+          continue;
+        }
+      }
+
+      if (inQuotes) {
+        if (ch === '"') {
+          inQuotes = false;
+          quotePending = true;
+        } else {
+          field += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"' && field === '') {
+        inQuotes = true;
+      } else if (ch === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (ch === '\r' || ch === '\n') {
+        record.push(field);
+        yield record;
+        record = [];
+        field = '';
+        crPending = ch === '\r';
+      } else {
+        field += ch;
+      }
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field at end of CSV input.');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    yield record;
+  }
+}
+
+/** Quotes a field holding the delimiter, a quote, a line break or edge spaces. */
+export function formatCsvField(field: string, delimiter = ','): string {
+  return field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim()
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+}
+
+export function formatCsvRecord(fields: string[], delimiter = ','): string {
+  return fields.map((f) => formatCsvField(f, delimiter)).join(delimiter);
+}
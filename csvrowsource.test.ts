@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CsvRowSource, parseCsv } from './csvrowsource.js';
+import type { Row } from './formfillerrunner.js';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'omniform-csv-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function file(name: string, content: string): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, content, 'utf8');
+  return filePath;
+}
+
+async function collect(rows: AsyncIterable<Row>): Promise<Row[]> {
+  const out: Row[] = [];
+  for await (const row of rows) out.push(row);
+  return out;
+}
+
+async function records(text: string, delimiter?: string): Promise<string[][]> {
+  async function* chunks() {
+    /* Split mid-record so state carries across chunks */
+    yield text.slice(0, 5);
+    yield text.slice(5);
+  }
+  const out: string[][] = [];
+  for await (const record of parseCsv(chunks(), delimiter)) out.push(record);
+  return out;
+}
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes and embedded line breaks', async () => {
+    expect(await records('a,"b ""c""","d\r\ne"\r\n1,2,3')).toEqual([
+      ['a', 'b "c"', 'd\r\ne'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('strips a BOM and accepts CRLF, LF and a missing final newline', async () => {
+    expect(await records('\uFEFFh1;h2\r\nx;y\nz;', ';')).toEqual([
+      ['h1', 'h2'],
+      ['x', 'y'],
+      ['z', ''],
+    ]);
+  });
+
+  it('rejects bad delimiters and unterminated quotes', async () => {
+    await expect(records('a', '\\t')).rejects.toThrow('Invalid CSV delimiter "\\\\t".');
+    await expect(records('"abc')).rejects.toThrow('Unterminated quoted field');
+  });
+});
+
+describe('CsvRowSource', () => {
+  it('numbers rows by record position and skips blank records', async () => {
+    const filePath = file('people.csv', 'name,email,url\nAda,ada@x.io,https://a.io\n,,\nBo,"bo@x.io",\n');
+    const rows = await collect(new CsvRowSource(filePath).rows());
+    expect(rows).toEqual([
+      { id: 2, data: { name: 'Ada', email: 'ada@x.io', url: 'https://a.io' }, url: 'https://a.io' },
+      { id: 4, data: { name: 'Bo', email: 'bo@x.io', url: '' }, url: undefined },
+    ]);
+  });
+
+  it('reads the header from `headerRow` and trims header names', async () => {
+    const filePath = file('offset.csv', 'exported 2024\n name , age \nAda,36\n');
+    const rows = await collect(new CsvRowSource(filePath, { headerRow: 2 }).rows());
+    expect(rows).toEqual([{ id: 3, data: { name: 'Ada', age: '36' }, url: undefined }]);
+  });
+
+  it('accepts `tab` and `semicolon` as delimiter names', async () => {
+    const tsv = file('people.tsv', 'name\tage\nAda\t36\n');
+    const ssv = file('people.ssv', 'name;age\nAda;36\n');
+    const expected = [{ id: 2, data: { name: 'Ada', age: '36' }, url: undefined }];
+    expect(await collect(new CsvRowSource(tsv, { delimiter: 'tab' }).rows())).toEqual(expected);
+    expect(await collect(new CsvRowSource(ssv, { delimiter: 'semicolon' }).rows())).toEqual(expected);
+  });
+
+  it('reports a missing file or header row', async () => {
+    await expect(collect(new CsvRowSource(path.join(dir, 'nope.csv')).rows())).rejects.toThrow(
+      'CSV file not found',
+    );
+    const short = file('short.csv', 'name\n');
+    await expect(collect(new CsvRowSource(short, { headerRow: 3 }).rows())).rejects.toThrow(
+      `CSV file ${short} has no header row 3.`,
+    );
+    expect(() => new CsvRowSource(short, { headerRow: 0 })).toThrow('positive integer');
+  });
+});
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import type { Row } from './formfillerrunner.js';
+import { parseCsv } from './csvparser.js';
+import { recordsToRows } from './rowrecord.js';
+import type { RowSource } from './rowsource.js';
+
+export { parseCsv };
+
+export interface CsvOptions {
+  /** Single-character field separator, or `tab` / `semicolon`. Defaults to `,`. */
+  delimiter?: string;
+  /** 1-based record holding the column names. Defaults to 1. */
+  headerRow?: number;
+  encoding?: BufferEncoding;
+}
+
+/** Separators an INI value cannot hold literally (`;` starts a comment). */
+const NAMED_DELIMITERS: Record<string, string> = { tab: '\t', semicolon: ';' };
+
+/**
+ * Row source for `[data_source] type = csv`. The file is streamed, so
+ * exports of any size can be processed.
+ */
+export class CsvRowSource implements RowSource {
+  private readonly delimiter: string;
+  private readonly headerRow: number;
+  private readonly encoding: BufferEncoding;
+
+  constructor(private readonly filePath: string, opts: CsvOptions = {}) {
+    const delimiter = opts.delimiter || ',';
+    this.delimiter = NAMED_DELIMITERS[delimiter.toLowerCase()] ?? delimiter;
+    this.headerRow = opts.headerRow ?? 1;
+    this.encoding = opts.encoding ?? 'utf8';
+    if (!Number.isInteger(this.headerRow) || this.headerRow < 1) {
+      throw new Error('CSV header row must be a positive integer.');
+    }
+  }
+
+  async *rows(): AsyncIterable<Row> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`CSV file not found: ${this.filePath}`);
+    }
+    const stream = fs.createReadStream(this.filePath, {
+      encoding: this.encoding,
+    });
+
+    try {
+      yield* recordsToRows(
+        parseCsv(stream, this.delimiter),
+        this.headerRow,
+        `CSV file ${this.filePath}`,
+      );
+    } finally {
+      stream.destroy();
+    }
+  }
+}
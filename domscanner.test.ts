@@ -0,0 +1,69 @@
+/**
+ * @jest-environment jsdom
+ */
+import { ScannedForm, scanScript } from './domscanner.js';
+import { fieldLocator, locateScript } from './fieldfingerprint.js';
+
+/* jsdom has no CSS.escape; this covers the identifiers used below */
+if (!globalThis.CSS) Object.assign(globalThis, { CSS: { escape: (v: string) => v.replace(/[^\w-]/g, '\\$&') } });
+
+/* Indirect eval runs at global scope, as `page.evaluate` would: a helper
+ * left outside the serialised functions fails with a ReferenceError. */
+const evaluate = (script: string): unknown => (0, eval)(script);
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <form id="signup" action="/join">
+      <h2>Join us</h2>
+      <label for="email">E-mail</label>
+      <input id="email" type="email" name="email" required>
+      <label>Plan
+        <select name="plan"><option value="a">Basic</option><option value="b">Pro</option></select>
+      </label>
+      <button type="submit">Sign up</button>
+    </form>`;
+});
+
+describe('scanScript', () => {
+  it('runs on its own in the page', () => {
+    const forms = evaluate(scanScript()) as ScannedForm[];
+    expect(forms).toHaveLength(1);
+    expect(forms[0]).toMatchObject({ selector: '#signup', kind: 'form', action: '/join' });
+    expect(forms[0].fields.map((f) => [f.selector, f.type, f.label])).toEqual([
+      ['#email', 'email', 'E-mail'],
+      ['select[name="plan"]', 'select', expect.stringContaining('Plan')],
+    ]);
+    expect(forms[0].fields[0].fingerprint).toMatchObject({ tag: 'input', css: '#email' });
+    expect(forms[0].submits[0]).toMatchObject({ text: 'Sign up', kind: 'submit' });
+  });
+
+  it('captures constraints, options and the section heading', () => {
+    const [email, plan] = (evaluate(scanScript()) as ScannedForm[])[0].fields;
+    expect(email).toMatchObject({ required: true, readOnly: false, disabled: false, heading: 'Join us' });
+    expect(plan.options).toEqual([
+      { value: 'a', label: 'Basic' },
+      { value: 'b', label: 'Pro' },
+    ]);
+  });
+});
+
+describe('locateScript', () => {
+  it('returns the element and how it was found', () => {
+    expect(evaluate(locateScript(fieldLocator('#email')))).toEqual({
+      element: document.getElementById('email'),
+      strategy: 'selector',
+    });
+  });
+
+  it('heals through the fingerprint', () => {
+    const forms = evaluate(scanScript()) as ScannedForm[];
+    const fingerprint = forms[0].fields[0].fingerprint;
+    document.getElementById('email')!.id = 'contact';
+    const found = evaluate(locateScript(fieldLocator('#email', { fingerprint }))) as { strategy?: string };
+    expect(found.strategy).toBe('name');
+  });
+
+  it('returns an empty object when nothing matches', () => {
+    expect(evaluate(locateScript(fieldLocator('#missing')))).toEqual({});
+  });
+});
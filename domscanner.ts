@@ -1,265 +1,393 @@
-export function scanPage(): ScannedElement[] {
-  const visitedFrames = new WeakSet<Document>();
-  const visitedShadowRoots = new WeakSet<ShadowRoot>();
-  const visitedElements = new WeakSet<Element>();
-  const results: ScannedElement[] = [];
+import { FieldFingerprint, FieldKit, fieldKit, RankedSelector } from './fieldfingerprint.js';
+import type { OptionCandidate } from './optionmatcher.js';
 
-  try {
-    internalScanRoot({
-      root: document,
-      framePath: [],
-      shadowPath: [],
-      out: results,
-      visitedFrames,
-      visitedShadowRoots,
-      visitedElements,
-    });
-  } catch {
-    /* noop ? best-effort scan */
-  }
-  return results;
-}
-
-/* -------------------------------------------------------------------------- */
-/* internals                                   */
-/* -------------------------------------------------------------------------- */
+/**
+ * The one field scanner. The content script and FormFiller call
+ * `scanForms` / `scanFields` directly; the CLI evaluates `scanScript` in
+ * the page through Playwright. Both walk the same roots in the same order
+ * and return plain JSON, so a scan from the popup and one from the CLI are
+ * interchangeable.
+ *
+ * Fields are grouped by the form they belong to: their `<form>`, else the
+ * nearest container holding a submit-like control, else the page itself.
+ */
 
-type RootLike = Document | ShadowRoot;
+export interface ScanOptions {
+  /** Descend into open shadow roots. Defaults to true. */
+  includeShadowDom?: boolean;
+  /** Descend into same-origin iframes. Defaults to true. */
+  iframeTraversal?: boolean;
+  /** How many shadow roots / iframes deep to go. Defaults to 7. */
+  maxDepth?: number;
+}
 
-interface ScanTask {
-  root: RootLike;
+export interface ScannedField {
+  /** Best-ranked unique selector within the field's document or shadow root */
+  selector: string;
+  /** Every candidate selector with its score, best first */
+  selectors: RankedSelector[];
+  /** Selectors of the iframes enclosing the field, outermost first */
   framePath: string[];
+  /** Selectors of the shadow hosts enclosing the field, outermost first */
   shadowPath: string[];
-  out: ScannedElement[];
-  visitedFrames: WeakSet<Document>;
-  visitedShadowRoots: WeakSet<ShadowRoot>;
-  visitedElements: WeakSet<Element>;
+  tag: string;
+  /** Input type (`email`, `checkbox`, ...) or the tag for other fields */
+  type: string;
+  name?: string;
+  id?: string;
+  label?: string;
+  placeholder?: string;
+  /** `aria-label`, or the text `aria-labelledby` points at */
+  ariaLabel?: string;
+  /** Text `aria-describedby` points at, e.g. a format hint */
+  ariaDescription?: string;
+  /** Autocomplete token, e.g. `given-name` */
+  autocomplete?: string;
+  required: boolean;
+  readOnly: boolean;
+  disabled: boolean;
+  /** Rendered with a size and not hidden by CSS */
+  visible: boolean;
+  pattern?: string;
+  min?: string;
+  max?: string;
+  maxLength?: number;
+  /** Choices of a select, in order */
+  options?: OptionCandidate[];
+  /** Legend of the enclosing fieldset */
+  legend?: string;
+  /** Closest heading above the field */
+  heading?: string;
+  fingerprint: FieldFingerprint;
 }
 
-function internalScanRoot(task: ScanTask): void {
-  const { root, out, framePath, shadowPath } = task;
-
-  /* Prevent processing the same shadow root more than once */
-  if (root instanceof ShadowRoot) {
-    if (task.visitedShadowRoots.has(root)) return;
-    task.visitedShadowRoots.add(root);
-  }
-
-  /* 1. Scan form-like controls inside current root ------------------------ */
-  const selector =
-    'input, textarea, select, [contenteditable]:not([contenteditable="false"])';
-  root.querySelectorAll(selector).forEach((el) => {
-    if (!(el instanceof HTMLElement)) return;
-    if (task.visitedElements.has(el)) return;
-    task.visitedElements.add(el);
-
-    const tag = el.tagName.toLowerCase();
-    const typeAttr = (el as HTMLInputElement).type || null;
-
-    const descriptor: ScannedElement = {
-      tag,
-      type: typeAttr,
-      name: el.getAttribute('name'),
-      id: el.id || null,
-      label: resolveLabelText(el),
-      selector: buildUniqueSelector(el, root),
-      framePath: [...framePath],
-      shadowPath: [...shadowPath],
-      elementRef: el,
-    };
-    out.push(descriptor);
-
-    /* In case element itself hosts a shadow root (e.g., custom <my-input>) */
-    const hostShadow = (el as HTMLElement & { shadowRoot?: ShadowRoot })
-      .shadowRoot;
-    if (hostShadow && !task.visitedShadowRoots.has(hostShadow)) {
-      internalScanRoot({
-        root: hostShadow,
-        framePath,
-        shadowPath: [...shadowPath, descriptor.selector],
-        out,
-        visitedFrames: task.visitedFrames,
-        visitedShadowRoots: task.visitedShadowRoots,
-        visitedElements: task.visitedElements,
-      });
-    }
-  });
-
-  /* 2. Recurse through shadow DOMs of any element in this root ------------- */
-  root.querySelectorAll('*').forEach((el) => {
-    const host = el as HTMLElement & { shadowRoot?: ShadowRoot };
-    if (host.shadowRoot && !task.visitedShadowRoots.has(host.shadowRoot)) {
-      internalScanRoot({
-        root: host.shadowRoot,
-        framePath,
-        shadowPath: [...shadowPath, buildUniqueSelector(host, root)],
-        out,
-        visitedFrames: task.visitedFrames,
-        visitedShadowRoots: task.visitedShadowRoots,
-        visitedElements: task.visitedElements,
-      });
-    }
-  });
-
-  /* 3. Recurse through same-origin iframes --------------------------------- */
-  root.querySelectorAll('iframe').forEach((frameEl, index) => {
-    const iframe = frameEl as HTMLIFrameElement;
-    try {
-      const doc = iframe.contentDocument;
-      if (!doc || task.visitedFrames.has(doc)) return;
-      task.visitedFrames.add(doc);
+/** A control that would submit the form, e.g. `button[type=submit]`. */
+export interface SubmitCandidate {
+  /** Unique within the form's document or shadow root */
+  selector: string;
+  text: string;
+  /** `submit` submits natively; `button` only reads like it would */
+  kind: 'submit' | 'button';
+  /** 0..1, halved for controls that are not visible */
+  score: number;
+}
 
-      const frameId =
-        iframe.getAttribute('id') ||
-        iframe.getAttribute('name') ||
-        `iframe:nth-of-type(${index + 1})`;
+export interface ScannedFieldset {
+  legend?: string;
+  /** Selectors of the form's fields inside the fieldset */
+  fields: string[];
+}
 
-      internalScanRoot({
-        root: doc,
-        framePath: [...framePath, frameId],
-        shadowPath: [],
-        out,
-        visitedFrames: task.visitedFrames,
-        visitedShadowRoots: task.visitedShadowRoots,
-        visitedElements: task.visitedElements,
-      });
-    } catch {
-      /* inaccessible (cross-origin) ? skip */
-    }
-  });
+export interface ScannedForm {
+  /** The `<form>` or inferred container, unique within its document or shadow root */
+  selector: string;
+  framePath: string[];
+  shadowPath: string[];
+  /** `form` element, `inferred` container, or the whole `page` for fields in neither */
+  kind: 'form' | 'inferred' | 'page';
+  id?: string;
+  name?: string;
+  action?: string;
+  method?: string;
+  /** `aria-label` of the form, else its first heading or the heading above it */
+  heading?: string;
+  fields: ScannedField[];
+  fieldsets: ScannedFieldset[];
+  /** Best first */
+  submits: SubmitCandidate[];
 }
 
-/* -------------------------------------------------------------------------- */
-/* utilities                                   */
-/* -------------------------------------------------------------------------- */
+/**
+ * The form a mapping is limited to: fields are only looked up inside it,
+ * and `submit` (resolved from the form's document or shadow root) is
+ * clicked once every field filled.
+ */
+export interface FormTarget {
+  selector: string;
+  framePath?: string[];
+  shadowPath?: string[];
+  /** Nothing is submitted when omitted */
+  submit?: string;
+}
 
-function resolveLabelText(el: Element): string | null {
-  /* <label for="id"> or <label><input> text ... */
-  let labelText: string | null = null;
-  if (el.id) {
-    const lab = el.ownerDocument?.querySelector(
-      `label[for="${cssEscape(el.id)}"]`
+/**
+ * Runs in the page. `kit` defaults to a fresh field kit; `scanScript`
+ * passes one in because a serialised function cannot reach module scope.
+ */
+export function scanForms(options: ScanOptions = {}, kit: FieldKit = fieldKit()): ScannedForm[] {
+  const FIELDS = 'input, select, textarea, [contenteditable]:not([contenteditable="false"])';
+  const HEADINGS = 'h1, h2, h3, h4, h5, h6, [role="heading"]';
+  const CONTROLS = 'button, input[type="submit"], input[type="image"], [role="button"]';
+  const SUBMIT_WORDS =
+    /\b(submit|send|save|continue|next|sign ?up|sign ?in|log ?in|register|create|apply|pay|order|buy|checkout|confirm|subscribe|book|request|finish|done)\b/i;
+  /* Not filled from a sheet: nothing to type, or a control that acts */
+  const SKIPPED_TYPES = ['hidden', 'submit', 'reset', 'button', 'image', 'file'];
+  const includeShadowDom = options.includeShadowDom !== false;
+  const iframeTraversal = options.iframeTraversal !== false;
+  const maxDepth = options.maxDepth ?? 7;
+  const forms = new Map<Element, ScannedForm>();
+  const fieldsets = new Map<Element, ScannedFieldset>();
+
+  const collapse = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+  function describedBy(el: Element): string {
+    const root = el.getRootNode() as Document | ShadowRoot;
+    return collapse(
+      (el.getAttribute('aria-describedby') ?? '')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((id) => root.querySelector(`[id="${id.replace(/["\\]/g, '\\$&')}"]`)?.textContent ?? '')
+        .join(' '),
     );
-    if (lab) labelText = lab.textContent?.trim() || null;
   }
 
-  if (!labelText) {
-    // Look up through ancestors until a <label>
-    let parent: Element | null = el.parentElement;
-    while (parent) {
-      if (parent.tagName.toLowerCase() === 'label') {
-        labelText = parent.textContent?.trim() || null;
-        break;
+  function isVisible(el: Element): boolean {
+    if (el.getClientRects().length === 0) return false;
+    const style = (el.ownerDocument.defaultView ?? window).getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none';
+  }
+
+  /* The last heading before the field: in an earlier sibling, or an earlier sibling of an ancestor */
+  function headingOf(el: Element): string {
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      for (let sib = node.previousElementSibling; sib; sib = sib.previousElementSibling) {
+        const heading = sib.matches(HEADINGS) ? sib : Array.from(sib.querySelectorAll(HEADINGS)).pop();
+        if (heading) return collapse(heading.textContent);
       }
-      parent = parent.parentElement;
     }
+    return '';
   }
 
-  if (labelText) {
-    // Collapse whitespace
-    labelText = labelText.replace(/\s+/g, ' ');
+  /* Reads the attributes a sheet value must satisfy, plus the surrounding text */
+  function metadata(el: Element) {
+    const text = (value: string | null | undefined) => collapse(value) || undefined;
+    const legend = el.closest('fieldset')?.querySelector(':scope > legend');
+    const maxLength = Number(el.getAttribute('maxlength'));
+    return {
+      placeholder: text(el.getAttribute('placeholder')),
+      ariaDescription: text(describedBy(el)),
+      required: el.hasAttribute('required') || el.getAttribute('aria-required') === 'true',
+      readOnly: el.hasAttribute('readonly') || el.getAttribute('aria-readonly') === 'true',
+      disabled: el.matches(':disabled') || el.getAttribute('aria-disabled') === 'true',
+      visible: isVisible(el),
+      pattern: text(el.getAttribute('pattern')),
+      min: text(el.getAttribute('min')),
+      max: text(el.getAttribute('max')),
+      maxLength: el.hasAttribute('maxlength') && maxLength >= 0 ? maxLength : undefined,
+      options:
+        el.tagName === 'SELECT'
+          ? Array.from((el as HTMLSelectElement).options).map((o) => ({ value: o.value, label: collapse(o.textContent) }))
+          : undefined,
+      legend: text(legend?.textContent),
+      heading: text(headingOf(el)),
+    };
   }
 
-  return labelText;
-}
+  const controlText = (el: Element) =>
+    collapse(el.textContent || el.getAttribute('value') || el.getAttribute('aria-label') || el.getAttribute('title'));
 
-/**
- * Builds a unique CSS selector for the given element within its root
- * (Document or ShadowRoot). It avoids :nth-child when an ID or name can be
- * used, otherwise falls back to a full path.
- */
-function buildUniqueSelector(el: Element, root: RootLike): string {
-  if (el.id) return `#${cssEscape(el.id)}`;
+  /* 1 for a native submit, .9 for a typeless button in a form, .6 for submit-like text, else 0 */
+  function submitScore(el: Element): number {
+    const type = (el.getAttribute('type') ?? '').toLowerCase();
+    const inForm = !!(el as HTMLButtonElement).form;
+    if (type === 'submit' || type === 'image') return inForm || el.tagName !== 'BUTTON' ? 1 : 0.6;
+    if (el.tagName === 'BUTTON' && !type && inForm) return 0.9;
+    return type !== 'reset' && SUBMIT_WORDS.test(controlText(el)) ? 0.6 : 0;
+  }
 
-  const parts: string[] = [];
-  let current: Element | null = el;
-  while (current && current !== root) {
-    let part = current.tagName.toLowerCase();
-    if (current.classList.length) {
-      part +=
-        '.' +
-        Array.from(current.classList)
-          .map((c) => cssEscape(c))
-          .join('.');
+  function submitsOf(container: Element): SubmitCandidate[] {
+    const controls = new Set(container.querySelectorAll(CONTROLS));
+    /* Controls outside the form that name it with a `form` attribute */
+    if (container.tagName === 'FORM') {
+      Array.from((container as HTMLFormElement).elements).forEach((el) => el.matches(CONTROLS) && controls.add(el));
     }
+    const candidates: SubmitCandidate[] = [];
+    controls.forEach((el) => {
+      const score = submitScore(el);
+      if (!score) return;
+      candidates.push({
+        selector: kit.selector(el),
+        text: controlText(el),
+        kind: score > 0.6 ? 'submit' : 'button',
+        score: isVisible(el) ? score : score / 2,
+      });
+    });
+    return candidates.sort((a, b) => b.score - a.score);
+  }
 
-    // Add nth-of-type for siblings when necessary
-    const parent = current.parentElement;
-    if (parent) {
-      const sameTagSiblings = Array.from(parent.children).filter(
-        (sib) => sib.tagName === current!.tagName
-      );
-      if (sameTagSiblings.length > 1) {
-        const index = sameTagSiblings.indexOf(current) + 1;
-        part += `:nth-of-type(${index})`;
+  /*
+   * The field's form element, else the nearest ancestor (across shadow
+   * boundaries) that holds a submit candidate. `crossed` counts the shadow
+   * roots left on the way up.
+   */
+  function containerOf(el: Element): { container: Element; kind: ScannedForm['kind']; crossed: number } | null {
+    const owner = (el as HTMLInputElement).form;
+    if (owner) return { container: owner, kind: 'form', crossed: 0 };
+    let crossed = 0;
+    let node = el;
+    for (;;) {
+      /* Tested by node type: `instanceof` fails for nodes of another frame */
+      const parent = node.parentNode;
+      const host = parent?.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (parent as ShadowRoot).host : null;
+      const next = node.parentElement ?? host;
+      if (!next) break;
+      if (next === host) crossed++;
+      node = next;
+      if (node === node.ownerDocument.body || node === node.ownerDocument.documentElement) break;
+      if (node.tagName === 'FORM') return { container: node, kind: 'form', crossed };
+      if (Array.from(node.querySelectorAll(CONTROLS)).some(submitScore)) {
+        return { container: node, kind: 'inferred', crossed };
       }
     }
-
-    parts.unshift(part);
-    current = parent;
+    return null;
   }
 
-  return parts.join(' > ');
-}
+  function formOf(el: Element, framePath: string[], shadowPath: string[]): ScannedForm {
+    const found = containerOf(el);
+    const container = found?.container ?? el.ownerDocument.body ?? el.ownerDocument.documentElement;
+    let form = forms.get(container);
+    if (form) return form;
+
+    const text = (value: string | null | undefined) => collapse(value) || undefined;
+    const isForm = found?.kind === 'form';
+    form = {
+      selector: found ? kit.selector(container) : container.tagName.toLowerCase(),
+      framePath,
+      shadowPath: found ? shadowPath.slice(0, shadowPath.length - found.crossed) : [],
+      kind: found?.kind ?? 'page',
+      id: text(container.id),
+      name: isForm ? text(container.getAttribute('name')) : undefined,
+      action: isForm ? text(container.getAttribute('action')) : undefined,
+      method: isForm ? text(container.getAttribute('method'))?.toLowerCase() : undefined,
+      heading: found
+        ? text(container.getAttribute('aria-label')) ??
+          text(container.querySelector(HEADINGS)?.textContent) ??
+          text(headingOf(container))
+        : undefined,
+      fields: [],
+      fieldsets: [],
+      submits: found ? submitsOf(container) : [],
+    };
+    for (const key of Object.keys(form) as (keyof ScannedForm)[]) {
+      if (form[key] === undefined) delete form[key];
+    }
+    forms.set(container, form);
+    return form;
+  }
 
-/* Polyfill for CSS.escape (spec-compliant) */
-function cssEscape(value: string): string {
-  if (typeof (window as any).CSS?.escape === 'function') {
-    return (window as any).CSS.escape(value);
+  function addField(form: ScannedForm, el: Element, field: ScannedField) {
+    form.fields.push(field);
+    const fieldset = el.closest('fieldset');
+    if (!fieldset) return;
+    let entry = fieldsets.get(fieldset);
+    if (!entry) {
+      const legend = collapse(fieldset.querySelector(':scope > legend')?.textContent);
+      entry = legend ? { legend, fields: [] } : { fields: [] };
+      fieldsets.set(fieldset, entry);
+      form.fieldsets.push(entry);
+    }
+    entry.fields.push(field.selector);
   }
 
-  const string = String(value);
-  const length = string.length;
-  let index = -1;
-  let codeUnit: number;
-  let result = '';
-  const firstCodeUnit = string.charCodeAt(0);
+  function visit(root: Document | ShadowRoot, framePath: string[], shadowPath: string[], depth: number) {
+    root.querySelectorAll(FIELDS).forEach((el) => {
+      const tag = el.tagName.toLowerCase();
+      if (tag === 'input' && SKIPPED_TYPES.includes((el as HTMLInputElement).type)) return;
+      /* Markup inside an editable region is part of that one field */
+      if (el.parentElement?.isContentEditable && !['input', 'select', 'textarea'].includes(tag)) return;
+
+      const print = kit.fingerprint(el);
+      const field: ScannedField = {
+        selector: print.css,
+        selectors: kit.rank(el),
+        framePath,
+        shadowPath,
+        tag,
+        type: tag === 'input' ? (el as HTMLInputElement).type : tag,
+        name: print.name,
+        id: print.id,
+        label: print.label,
+        ariaLabel: print.aria,
+        autocomplete: print.autocomplete,
+        ...metadata(el),
+        fingerprint: print,
+      };
+      /* Absent rather than undefined, so the JSON stays compact */
+      for (const key of Object.keys(field) as (keyof ScannedField)[]) {
+        if (field[key] === undefined) delete field[key];
+      }
+      addField(formOf(el, framePath, shadowPath), el, field);
+    });
+    if (depth >= maxDepth) return;
 
-  while (++index < length) {
-    codeUnit = string.charCodeAt(index);
-    // Replace NULL character
-    if (codeUnit === 0x0000) {
-      result += '\uFFFD';
-      continue;
+    if (includeShadowDom) {
+      root.querySelectorAll('*').forEach((host) => {
+        if (host.shadowRoot) visit(host.shadowRoot, framePath, [...shadowPath, kit.selector(host)], depth + 1);
+      });
     }
-
-    if (
-      (codeUnit >= 0x0001 && codeUnit <= 0x001f) || // Control characters
-      codeUnit === 0x007f || // DELETE
-      // First character numeric
-      (index === 0 && codeUnit >= 0x0030 && codeUnit <= 0x0039) ||
-      // Second character numeric if first is '-'
-      (index === 1 &&
-        codeUnit >= 0x0030 &&
-        codeUnit <= 0x0039 &&
-        firstCodeUnit === 0x002d)
-    ) {
-      result += '\\' + codeUnit.toString(16) + ' ';
-      continue;
+    if (iframeTraversal) {
+      root.querySelectorAll('iframe').forEach((frame) => {
+        let doc: Document | null = null;
+        try {
+          doc = frame.contentDocument;
+        } catch {
+          /* cross-origin */
+        }
+        if (doc?.documentElement) visit(doc, [...framePath, kit.selector(frame)], [], depth + 1);
+      });
     }
+  }
 
-    if (index === 0 && codeUnit === 0x002d && length === 1) {
-      // Single hyphen
-      result += '\\' + string.charAt(index);
-      continue;
-    }
+  visit(document, [], [], 0);
+  return Array.from(forms.values());
+}
 
-    if (
-      codeUnit >= 0x0080 || // Non-ASCII
-      codeUnit === 0x002d || // Hyphen
-      codeUnit === 0x005f || // Underscore
-      (codeUnit >= 0x0030 && codeUnit <= 0x0039) || // 0-9
-      (codeUnit >= 0x0041 && codeUnit <= 0x005a) || // A-Z
-      (codeUnit >= 0x0061 && codeUnit <= 0x007a) // a-z
-    ) {
-      // Safe character
-      result += string.charAt(index);
-      continue;
-    }
+/** Every scanned field, form by form. Runs in the page. */
+export function scanFields(options: ScanOptions = {}, kit: FieldKit = fieldKit()): ScannedField[] {
+  return scanForms(options, kit).flatMap((form) => form.fields);
+}
+
+/** Expression for Playwright's `evaluate` that runs `scanForms` in the page. */
+export function scanScript(options: ScanOptions = {}): string {
+  return `(${scanForms.toString()})(${JSON.stringify(options)}, (${fieldKit.toString()})())`;
+}
 
-    // Escape all other characters
-    result += '\\' + string.charAt(index);
+/** Limits a mapping to `form`, submitting with its best submit candidate unless told otherwise. */
+export function formTarget(form: ScannedForm, submit = form.submits[0]?.selector): FormTarget {
+  return {
+    selector: form.selector,
+    ...(form.framePath.length ? { framePath: form.framePath } : {}),
+    ...(form.shadowPath.length ? { shadowPath: form.shadowPath } : {}),
+    ...(submit ? { submit } : {}),
+  };
+}
+
+/**
+ * Runs in the page: whether `el` belongs to `form`, as a descendant (also
+ * through shadow roots) or through its `form` attribute.
+ */
+export function insideForm(form: Node, el: Node): boolean {
+  if ((el as HTMLInputElement).form === form) return true;
+  for (let node: Node | null = el; node; ) {
+    if (node === form) return true;
+    node = node.parentNode ?? null;
+    if (node?.nodeType === Node.DOCUMENT_FRAGMENT_NODE) node = (node as ShadowRoot).host;
   }
+  return false;
+}
+
+/** One line for pickers and logs, e.g. `Sign up (form#signup, 4 fields, submit "Create account")`. */
+export function describeForm(form: ScannedForm): string {
+  const parts = [
+    form.kind === 'page' ? 'outside any form' : form.selector,
+    `${form.fields.length} field${form.fields.length === 1 ? '' : 's'}`,
+  ];
+  if (form.submits[0]) parts.push(`submit "${form.submits[0].text || form.submits[0].selector}"`);
+  const title = form.heading ?? form.name ?? form.id;
+  return title ? `${title} (${parts.join(', ')})` : parts.join(', ');
+}
 
-  return result;
-}
\ No newline at end of file
+/** The field's selectors joined into one ` >>> ` deep selector, unique across the page. */
+export function fieldKey(field: ScannedField): string {
+  return [...field.framePath, ...field.shadowPath, field.selector].join(' >>> ');
+}
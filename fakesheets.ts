@@ -0,0 +1,331 @@
+import type { sheets_v4 } from 'googleapis';
+import { Cell, columnLetter, quoteSheetName, SheetsClient } from './googlesheetsservice.js';
+
+/**
+ * In-memory stand-in for the Sheets v4 endpoints `GoogleSheetsService`
+ * uses, so the service, write-back and anything built on them can run in CI
+ * without credentials or network:
+ *
+ *   const book = new FakeWorkbook('sheet-1', { Leads: [['name'], ['Ada']] });
+ *   const service = new GoogleSheetsService({ client: book.client() });
+ *
+ * A1 parsing, trailing-blank trimming, append placement and error payloads
+ * follow the real API closely enough for gaxios-based error handling (and
+ * sheetsscheduler.ts) to behave as it does in production.
+ */
+
+export interface FakeSheetsOptions {
+  /** Requests allowed per rolling minute before 429s. Unlimited by default. */
+  quotaPerMinute?: number;
+  /** Clock override for quota tests. */
+  now?: () => number;
+}
+
+export interface FakeRequest {
+  method: 'get' | 'values.get' | 'values.update' | 'values.append' | 'values.batchUpdate';
+  ranges: string[];
+}
+
+/**
+ * Shaped like a gaxios error: `code`, `errors`, `response.status`,
+ * `response.headers` and `response.data.error`.
+ */
+export class FakeSheetsError extends Error {
+  readonly code: number;
+  readonly errors: { message: string; domain: string; reason: string }[];
+  readonly response: {
+    status: number;
+    headers: Record<string, string>;
+    data: { error: { code: number; message: string; errors: FakeSheetsError['errors'] } };
+  };
+
+  constructor(status: number, message: string, reason: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'FakeSheetsError';
+    this.code = status;
+    this.errors = [{ message, domain: 'global', reason }];
+    this.response = {
+      status,
+      headers,
+      data: { error: { code: status, message, errors: this.errors } },
+    };
+  }
+}
+
+interface GridRange {
+  sheet: string;
+  startRow: number;
+  startCol: number;
+  /* Inclusive; Infinity for open-ended ranges */
+  endRow: number;
+  endCol: number;
+}
+
+function columnIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function isEmpty(cell: Cell | undefined): boolean {
+  return cell === undefined || cell === null || cell === '';
+}
+
+export class FakeWorkbook {
+  readonly requests: FakeRequest[] = [];
+  private readonly sheets = new Map<string, Cell[][]>();
+  private readonly calls: number[] = [];
+  private injected: FakeSheetsError[] = [];
+
+  constructor(
+    readonly spreadsheetId = 'fake-spreadsheet',
+    sheets: Record<string, Cell[][]> = { Sheet1: [] },
+  ) {
+    for (const [name, rows] of Object.entries(sheets)) this.addSheet(name, rows);
+  }
+
+  addSheet(name: string, rows: Cell[][] = []): void {
+    if (this.sheets.has(name)) throw new Error(`Sheet "${name}" already exists.`);
+    this.sheets.set(name, rows.map((r) => [...r]));
+  }
+
+  /** Live grid for assertions; mutations are visible to the client. */
+  sheet(name: string): Cell[][] {
+    const grid = this.sheets.get(name);
+    if (!grid) throw new Error(`No sheet named "${name}".`);
+    return grid;
+  }
+
+  /**
+   * Make the next request fail, e.g. `failNext(503, { retryAfterSeconds: 1 })`.
+   */
+  failNext(status: number, opts: { retryAfterSeconds?: number; reason?: string } = {}): void {
+    const headers: Record<string, string> =
+      opts.retryAfterSeconds !== undefined ? { 'retry-after': String(opts.retryAfterSeconds) } : {};
+    this.injected.push(
+      new FakeSheetsError(status, `Injected ${status} error`, opts.reason ?? 'backendError', headers),
+    );
+  }
+
+  /**
+   * A `SheetsClient` bound to this workbook.
+   */
+  client(opts: FakeSheetsOptions = {}): SheetsClient {
+    const call = <T>(req: FakeRequest, spreadsheetId: string | undefined, fn: () => T) =>
+      Promise.resolve().then(() => {
+        this.requests.push(req);
+        this.admit(opts);
+        if (spreadsheetId !== this.spreadsheetId) {
+          throw new FakeSheetsError(404, 'Requested entity was not found.', 'notFound');
+        }
+        return { data: fn() };
+      });
+
+    return {
+      spreadsheets: {
+        get: (params) =>
+          call({ method: 'get', ranges: [] }, params.spreadsheetId, () => this.metadata()),
+        values: {
+          get: (params) =>
+            call({ method: 'values.get', ranges: [params.range ?? ''] }, params.spreadsheetId, () =>
+              this.read(params.range ?? ''),
+            ),
+          update: (params) =>
+            call({ method: 'values.update', ranges: [params.range ?? ''] }, params.spreadsheetId, () =>
+              this.write(params.range ?? '', params.requestBody?.values ?? []),
+            ),
+          append: (params) =>
+            call({ method: 'values.append', ranges: [params.range ?? ''] }, params.spreadsheetId, () =>
+              this.append(params.range ?? '', params.requestBody?.values ?? []),
+            ),
+          batchUpdate: (params) => {
+            const data = params.requestBody?.data ?? [];
+            return call(
+              { method: 'values.batchUpdate', ranges: data.map((d) => d.range ?? '') },
+              params.spreadsheetId,
+              () => {
+                const responses = data.map((d) => this.write(d.range ?? '', d.values ?? []));
+                return {
+                  spreadsheetId: this.spreadsheetId,
+                  totalUpdatedRows: responses.reduce((n, r) => n + (r.updatedRows ?? 0), 0),
+                  totalUpdatedCells: responses.reduce((n, r) => n + (r.updatedCells ?? 0), 0),
+                  responses,
+                };
+              },
+            );
+          },
+        },
+      },
+    };
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* Request handling                                                   */
+  /* ------------------------------------------------------------------ */
+
+  private admit(opts: FakeSheetsOptions): void {
+    const injected = this.injected.shift();
+    if (injected) throw injected;
+
+    if (opts.quotaPerMinute === undefined) return;
+    const now = (opts.now ?? Date.now)();
+    while (this.calls.length && now - this.calls[0] >= 60_000) this.calls.shift();
+    if (this.calls.length >= opts.quotaPerMinute) {
+      const wait = Math.ceil((60_000 - (now - this.calls[0])) / 1000);
+      throw new FakeSheetsError(
+        429,
+        "Quota exceeded for quota metric 'Read requests' and limit 'Read requests per minute per user'.",
+        'rateLimitExceeded',
+        { 'retry-after': String(wait) },
+      );
+    }
+    this.calls.push(now);
+  }
+
+  private metadata(): sheets_v4.Schema$Spreadsheet {
+    return {
+      spreadsheetId: this.spreadsheetId,
+      properties: { title: this.spreadsheetId },
+      sheets: [...this.sheets.entries()].map(([title, grid], index) => ({
+        properties: {
+          sheetId: index,
+          title,
+          index,
+          gridProperties: {
+            rowCount: Math.max(1000, grid.length),
+            columnCount: Math.max(26, ...grid.map((r) => r.length)),
+          },
+        },
+      })),
+    };
+  }
+
+  private read(range: string): sheets_v4.Schema$ValueRange {
+    const grid = this.parseRange(range);
+    const rows = this.sheet(grid.sheet);
+
+    const values: string[][] = [];
+    for (let r = grid.startRow; r <= Math.min(grid.endRow, rows.length - 1); r++) {
+      const row = rows[r] ?? [];
+      const cells = row
+        .slice(grid.startCol, grid.endCol === Infinity ? undefined : grid.endCol + 1)
+        .map((c) => (isEmpty(c) ? '' : String(c)));
+      while (cells.length && cells[cells.length - 1] === '') cells.pop();
+      values.push(cells);
+    }
+    while (values.length && values[values.length - 1].length === 0) values.pop();
+
+    return {
+      range: this.formatRange(grid),
+      majorDimension: 'ROWS',
+      ...(values.length ? { values } : {}),
+    };
+  }
+
+  private write(range: string, values: unknown[][]): sheets_v4.Schema$UpdateValuesResponse {
+    const grid = this.parseRange(range);
+    const rows = this.sheet(grid.sheet);
+    const height = values.length;
+    const width = Math.max(0, ...values.map((v) => v.length));
+
+    if (
+      (grid.endRow !== Infinity && height > grid.endRow - grid.startRow + 1) ||
+      (grid.endCol !== Infinity && width > grid.endCol - grid.startCol + 1)
+    ) {
+      /* A single-cell range expands to fit, as the real API does */
+      const single = grid.endRow === grid.startRow && grid.endCol === grid.startCol;
+      if (!single) {
+        throw new FakeSheetsError(
+          400,
+          `Requested writing within range [${range}], but tried writing beyond it.`,
+          'badRequest',
+        );
+      }
+    }
+
+    values.forEach((rowValues, i) => {
+      const target = (rows[grid.startRow + i] ??= []);
+      rowValues.forEach((value, j) => {
+        target[grid.startCol + j] = value as Cell;
+      });
+    });
+
+    return {
+      spreadsheetId: this.spreadsheetId,
+      updatedRange: this.formatRange({
+        ...grid,
+        endRow: grid.startRow + Math.max(0, height - 1),
+        endCol: grid.startCol + Math.max(0, width - 1),
+      }),
+      updatedRows: height,
+      updatedColumns: width,
+      updatedCells: values.reduce((n, v) => n + v.length, 0),
+    };
+  }
+
+  private append(range: string, values: unknown[][]): sheets_v4.Schema$AppendValuesResponse {
+    const grid = this.parseRange(range);
+    const rows = this.sheet(grid.sheet);
+    let last = rows.length - 1;
+    while (last >= 0 && (rows[last] ?? []).every(isEmpty)) last--;
+
+    const start = `${columnLetter(grid.startCol)}${last + 2}`;
+    const updates = this.write(`${quoteSheetName(grid.sheet)}!${start}`, values);
+    return {
+      spreadsheetId: this.spreadsheetId,
+      tableRange: last >= 0 ? this.formatRange({ ...grid, startRow: 0, endRow: last }) : undefined,
+      updates,
+    };
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* A1 notation                                                        */
+  /* ------------------------------------------------------------------ */
+
+  private parseRange(range: string): GridRange {
+    const bang = /^(?:'((?:[^']|'')+)'|([^!']+))!(.*)$/.exec(range);
+    let sheet: string;
+    let cells: string;
+    if (bang) {
+      sheet = bang[1] !== undefined ? bang[1].replace(/''/g, "'") : bang[2];
+      cells = bang[3];
+    } else if (this.sheets.has(range.replace(/^'(.*)'$/, '$1').replace(/''/g, "'"))) {
+      sheet = range.replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+      cells = '';
+    } else {
+      sheet = [...this.sheets.keys()][0];
+      cells = range;
+    }
+
+    if (!this.sheets.has(sheet)) {
+      throw new FakeSheetsError(400, `Unable to parse range: ${range}`, 'badRequest');
+    }
+    if (cells === '') {
+      return { sheet, startRow: 0, startCol: 0, endRow: Infinity, endCol: Infinity };
+    }
+
+    const m = /^([A-Za-z]*)(\d*)(?::([A-Za-z]*)(\d*))?$/.exec(cells);
+    if (!m || (!m[1] && !m[2])) {
+      throw new FakeSheetsError(400, `Unable to parse range: ${range}`, 'badRequest');
+    }
+    const [, c1, r1, c2, r2] = m;
+    const hasEnd = cells.includes(':');
+    const startCol = c1 ? columnIndex(c1) : 0;
+    const startRow = r1 ? Number(r1) - 1 : 0;
+    return {
+      sheet,
+      startRow,
+      startCol,
+      endRow: hasEnd ? (r2 ? Number(r2) - 1 : Infinity) : r1 ? startRow : Infinity,
+      endCol: hasEnd ? (c2 ? columnIndex(c2) : Infinity) : c1 ? startCol : Infinity,
+    };
+  }
+
+  private formatRange(grid: GridRange): string {
+    const rows = this.sheet(grid.sheet);
+    const endRow = grid.endRow === Infinity ? Math.max(rows.length, 1000) - 1 : grid.endRow;
+    const endCol =
+      grid.endCol === Infinity ? Math.max(25, ...rows.map((r) => r.length - 1)) : grid.endCol;
+    return `${quoteSheetName(grid.sheet)}!${columnLetter(grid.startCol)}${grid.startRow + 1}:${columnLetter(endCol)}${endRow + 1}`;
+  }
+}
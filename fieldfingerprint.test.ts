@@ -0,0 +1,146 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+  describeHealing,
+  describeInvalidFingerprint,
+  fieldKit,
+  fieldLocator,
+  FieldFingerprint,
+} from './fieldfingerprint.js';
+
+/* jsdom has no CSS.escape; this covers the identifiers used below */
+if (!globalThis.CSS) Object.assign(globalThis, { CSS: { escape: (v: string) => v.replace(/[^\w-]/g, '\\$&') } });
+
+const kit = fieldKit();
+
+function field(selector: string): Element {
+  const el = document.querySelector(selector);
+  if (!el) throw new Error(`No element for ${selector}`);
+  return el;
+}
+
+describe('FieldKit.rank', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form>
+        <label for="email">E-mail</label>
+        <input id="email" data-testid="signup-email" name="email" autocomplete="email" class="input wide">
+        <input id=":r3:" name="phone" class="css-1n2mv2k">
+        <input name="q" class="search"><input name="q" class="search">
+      </form>`;
+  });
+
+  it('orders candidates by stability, best first', () => {
+    const ranked = kit.rank(field('[data-testid="signup-email"]'));
+    expect(ranked.map((c) => c.basis)).toEqual(['id', 'test-id', 'name', 'attribute', 'class', 'path']);
+    expect(ranked[0]).toMatchObject({ selector: '#email', matches: 1 });
+    const scores = ranked.map((c) => c.score);
+    expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+  });
+
+  it('distrusts build-generated ids and classes', () => {
+    const ranked = kit.rank(field('[name="phone"]'));
+    expect(ranked[0]).toMatchObject({ basis: 'name', selector: 'input[name="phone"]' });
+    expect(ranked.find((c) => c.basis === 'id')).toMatchObject({ generated: true });
+    expect(ranked.find((c) => c.basis === 'class')).toMatchObject({ generated: true });
+  });
+
+  it('divides the score by the number of matches', () => {
+    const second = document.querySelectorAll('[name="q"]')[1];
+    const byName = kit.rank(second).find((c) => c.basis === 'name');
+    expect(byName?.matches).toBe(2);
+    expect(kit.selector(second)).toBe('html > body > form > input:nth-of-type(4)');
+  });
+});
+
+describe('FieldKit.fingerprint', () => {
+  it('records every way of finding the field', () => {
+    document.body.innerHTML = `
+      <form id="signup">
+        <p>Where can we reach you?</p>
+        <span id="hint">Work address</span>
+        <input type="EMAIL" id="mail" name="mail" autocomplete="work email" aria-labelledby="hint">
+      </form>`;
+    expect(kit.fingerprint(field('#mail'))).toEqual({
+      tag: 'input',
+      type: 'email',
+      id: 'mail',
+      name: 'mail',
+      aria: 'Work address',
+      autocomplete: 'work email',
+      nearText: 'Work address',
+      css: '#mail',
+      xpath: '/html[1]/body[1]/form[1]/input[1]',
+    });
+  });
+});
+
+describe('FieldKit.locateIn', () => {
+  let print: FieldFingerprint;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form>
+        <label>Full name <input type="text" id="name" name="fullname" class="x"></label>
+        <input type="radio" name="plan" value="a"><input type="radio" name="plan" value="b">
+      </form>`;
+    print = kit.fingerprint(field('#name'));
+  });
+
+  it('uses the selector while it still matches', () => {
+    expect(kit.locateIn(document, '#name', print)?.strategy).toBe('selector');
+  });
+
+  it('falls back through the fingerprint when the selector breaks', () => {
+    field('#name').className = 'y';
+    expect(kit.locateIn(document, 'input.x', print)?.strategy).toBe('id');
+    field('#name').id = 'renamed';
+    expect(kit.locateIn(document, 'input.x', print)?.strategy).toBe('name');
+    field('#renamed').setAttribute('name', 'other');
+    const found = kit.locateIn(document, 'input.x', print);
+    expect(found?.strategy).toBe('label');
+    expect(found?.elements).toEqual([field('#renamed')]);
+  });
+
+  it('never heals to a field of another tag or type', () => {
+    expect(kit.locateIn(document, '#gone', { ...print, tag: 'textarea' })).toBeNull();
+    expect(kit.locateIn(document, '#gone', { ...print, type: 'email' })).toBeNull();
+    expect(kit.locateIn(document, '#gone')).toBeNull();
+  });
+
+  it('counts a whole radio group as one hit', () => {
+    const radio = kit.fingerprint(document.querySelector('[value="a"]')!);
+    const found = kit.locateIn(document, '#gone', { ...radio, css: '#gone', xpath: '/nothing' });
+    expect(found?.strategy).toBe('name');
+    expect(found?.elements).toHaveLength(2);
+  });
+
+  it('locates through the path of a locator', () => {
+    expect(kit.locate(fieldLocator('form >>> #name'))).toBeNull();
+    expect(kit.locate(fieldLocator('#name'))?.elements).toEqual([field('#name')]);
+  });
+});
+
+describe('describeHealing', () => {
+  it('names the strategy and its evidence', () => {
+    const print = { tag: 'input', css: '#a', xpath: '/a', label: 'E-mail' };
+    expect(describeHealing('.x-email', 'label', print)).toBe(
+      'Field ".x-email" healed: selector no longer matches, found by label "E-mail"',
+    );
+    expect(describeHealing('.x', 'name', print)).toBe('Field ".x" healed: selector no longer matches, found by name');
+  });
+});
+
+describe('describeInvalidFingerprint', () => {
+  it('checks the required keys and value types', () => {
+    expect(describeInvalidFingerprint({ tag: 'input', css: '#a', xpath: '/a' })).toBeNull();
+    expect(describeInvalidFingerprint([])).toBe('fingerprint must be an object');
+    expect(describeInvalidFingerprint({ tag: 'input', css: ' ', xpath: '/a' })).toBe(
+      'fingerprint.css must be a non-empty string',
+    );
+    expect(describeInvalidFingerprint({ tag: 'input', css: '#a', xpath: '/a', id: 3 })).toBe(
+      'fingerprint.id must be a string',
+    );
+  });
+});
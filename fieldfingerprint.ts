@@ -0,0 +1,420 @@
+/**
+ * Field fingerprints: several independent ways of finding the same form
+ * field, recorded when the page is scanned. A site release that renames
+ * classes or reshuffles markup usually leaves the id, name, label or
+ * autocomplete token alone, so when a mapping's selector stops matching
+ * the fillers fall back through the fingerprint, most reliable strategy
+ * first, and report which one found the field.
+ *
+ * `fieldKit` closes over nothing: the content script and FormFiller call
+ * it directly and the CLI evaluates `locateScript` in the page.
+ */
+
+export type LocateStrategy =
+  | 'selector'
+  | 'id'
+  | 'name'
+  | 'label'
+  | 'aria'
+  | 'autocomplete'
+  | 'css'
+  | 'xpath'
+  | 'neighbour';
+
+export interface FieldFingerprint {
+  tag: string;
+  /** `type` attribute, lower-cased */
+  type?: string;
+  id?: string;
+  name?: string;
+  /** Text of the field's label, whitespace collapsed */
+  label?: string;
+  /** `aria-label`, or the text `aria-labelledby` points at */
+  aria?: string;
+  /** Autocomplete token, e.g. `email` or `postal-code` */
+  autocomplete?: string;
+  /** Best-ranked unique selector (see `FieldKit.rank`) */
+  css: string;
+  /** Positional XPath within the field's document or shadow root */
+  xpath: string;
+  /** Closest text before the field, for captions that are not labels */
+  nearText?: string;
+}
+
+/** Where to look for a field: the same shape for every filler. */
+export interface FieldLocator {
+  /** Selectors of the iframes and shadow hosts to descend through, outermost first */
+  path: string[];
+  selector: string;
+  fingerprint?: FieldFingerprint;
+}
+
+export interface LocatedField {
+  /** Every element the selector matched; a single element (or radio group) when healed */
+  elements: Element[];
+  strategy: LocateStrategy;
+}
+
+/** What a candidate selector relies on, most stable first */
+export type SelectorBasis = 'id' | 'test-id' | 'name' | 'attribute' | 'class' | 'path';
+
+export interface RankedSelector {
+  selector: string;
+  /** 0..1: uniqueness times stability, less length and depth penalties */
+  score: number;
+  /** Elements it matches in the field's document or shadow root */
+  matches: number;
+  basis: SelectorBasis;
+  /** Relies on an id or class that looks build-generated */
+  generated?: boolean;
+}
+
+export interface FieldKit {
+  fingerprint(el: Element): FieldFingerprint;
+  /** The best-ranked selector for `el` within its document or shadow root */
+  selector(el: Element): string;
+  /** Every candidate selector for `el`, best first */
+  rank(el: Element): RankedSelector[];
+  /** Resolves `locator.path` from `document`, then calls `locateIn` */
+  locate(locator: FieldLocator): LocatedField | null;
+  locateIn(root: Document | ShadowRoot, selector: string, fingerprint?: FieldFingerprint): LocatedField | null;
+}
+
+/** Builds the locator for a mapping entry; `>>>` inside the selector is honoured. */
+export function fieldLocator(
+  selector: string,
+  location: { framePath?: string[]; shadowPath?: string[]; fingerprint?: FieldFingerprint } = {},
+): FieldLocator {
+  const parts = selector.split(/\s*>>>\s*/).filter(Boolean);
+  return {
+    path: [...(location.framePath ?? []), ...(location.shadowPath ?? []), ...parts.slice(0, -1)],
+    selector: parts[parts.length - 1] ?? selector,
+    fingerprint: location.fingerprint,
+  };
+}
+
+/**
+ * Runs in the page. Every helper lives inside so the function can be
+ * serialised as a whole.
+ */
+export function fieldKit(): FieldKit {
+  const FIELDS = 'input, select, textarea, [contenteditable]:not([contenteditable="false"])';
+  const TEST_IDS = ['data-testid', 'data-test', 'data-qa', 'data-cy'];
+  const ATTRIBUTES = ['autocomplete', 'aria-label', 'placeholder', 'title'];
+  /* How likely each basis is to survive a site release */
+  const STABILITY: Record<SelectorBasis, number> = {
+    id: 1,
+    'test-id': 0.95,
+    name: 0.85,
+    attribute: 0.7,
+    class: 0.55,
+    path: 0.3,
+  };
+  const GENERATED_STABILITY = 0.15;
+
+  const collapse = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+  const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+  const rootOf = (el: Element) => el.getRootNode() as Document | ShadowRoot;
+  const isDocument = (root: Node): root is Document => root.nodeType === 9;
+
+  /*
+   * Ids and classes that change between builds: framework ids (":r3:",
+   * "ember412"), CSS-module hashes ("Form_input__x7Gk2", "_3xK9a"),
+   * CSS-in-JS names ("css-1n2mv2k", "sc-bdVaJa", "makeStyles-root-12")
+   * and hex digests ("input-8f3a9c21").
+   */
+  function looksGenerated(token: string): boolean {
+    return (
+      /^(?:ember|ext-gen|yui_|react-|radix-|headlessui-|mui-)|:r[0-9a-z]+:|\d{4,}/i.test(token) ||
+      /^(?:css|sc|jss|emotion|tw)-[a-z0-9]{4,}$/i.test(token) ||
+      /__(?=[\w-]*[\dA-Z])[\w-]{5,}$|^_(?=[A-Za-z]*\d)[A-Za-z0-9]{5,}$|^[a-z]+[A-Z]\w*-\w+-\d+$/.test(token) ||
+      (/[0-9a-f]{8,}/i.test(token) && /\d/.test(token))
+    );
+  }
+
+  function count(root: Document | ShadowRoot, selector: string): number {
+    try {
+      return root.querySelectorAll(selector).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  function sameTagSiblings(el: Element): Element[] {
+    const parent = el.parentElement ?? (el.parentNode as ParentNode | null);
+    return parent ? Array.from(parent.children).filter((c) => c.tagName === el.tagName) : [el];
+  }
+
+  /* Text of a label without the text of the controls nested in it */
+  function ownText(node: Node): string {
+    if (node.nodeType === 3) return node.textContent ?? '';
+    if (node.nodeType !== 1 || (node as Element).matches(`${FIELDS}, option, script, style`)) return '';
+    return Array.from(node.childNodes).map(ownText).join(' ');
+  }
+
+  function labelOf(el: Element): string | undefined {
+    const labels = (el as HTMLInputElement).labels;
+    const label =
+      (labels && labels[0]) ||
+      (el.id ? rootOf(el).querySelector(`label[for=${quote(el.id)}]`) : null) ||
+      el.closest('label');
+    return (label && collapse(ownText(label))) || undefined;
+  }
+
+  function ariaOf(el: Element): string | undefined {
+    const direct = collapse(el.getAttribute('aria-label'));
+    if (direct) return direct;
+    const ids = collapse(el.getAttribute('aria-labelledby')).split(' ').filter(Boolean);
+    const root = rootOf(el);
+    const text = ids.map((id) => collapse(root.querySelector(`[id=${quote(id)}]`)?.textContent)).join(' ');
+    return collapse(text) || undefined;
+  }
+
+  function autocompleteOf(el: Element): string | undefined {
+    const token = collapse(el.getAttribute('autocomplete')).toLowerCase();
+    return token && token !== 'on' && token !== 'off' ? token : undefined;
+  }
+
+  /* Walks back through preceding siblings, then the parents' */
+  function nearText(el: Element): string | undefined {
+    let node: Node | null = el;
+    for (let depth = 0; node && depth < 3; depth++, node = node.parentNode) {
+      for (let sib = node.previousSibling; sib; sib = sib.previousSibling) {
+        const text = collapse(ownText(sib));
+        if (text) return text.length > 80 ? text.slice(-80) : text;
+      }
+    }
+    return undefined;
+  }
+
+  function structuralPath(el: Element, root: Document | ShadowRoot): string {
+    const parts: string[] = [];
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      if (node !== el && node.id && !looksGenerated(node.id) && count(root, `#${CSS.escape(node.id)}`) === 1) {
+        parts.unshift(`#${CSS.escape(node.id)}`);
+        break;
+      }
+      const tag = node.tagName.toLowerCase();
+      const siblings = sameTagSiblings(node);
+      parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+    }
+    return parts.join(' > ');
+  }
+
+  function rank(el: Element): RankedSelector[] {
+    const root = rootOf(el);
+    const tag = el.tagName.toLowerCase();
+    const candidates: [string, SelectorBasis, boolean][] = [];
+    if (el.id) candidates.push([`#${CSS.escape(el.id)}`, 'id', looksGenerated(el.id)]);
+    for (const attr of TEST_IDS) {
+      const value = el.getAttribute(attr);
+      if (value) candidates.push([`[${attr}=${quote(value)}]`, 'test-id', false]);
+    }
+    const name = el.getAttribute('name');
+    if (name) candidates.push([`${tag}[name=${quote(name)}]`, 'name', looksGenerated(name)]);
+    for (const attr of ATTRIBUTES) {
+      const value = el.getAttribute(attr);
+      if (value) candidates.push([`${tag}[${attr}=${quote(value)}]`, 'attribute', false]);
+    }
+    const classes = Array.from(el.classList);
+    const stable = classes.filter((c) => !looksGenerated(c));
+    if (stable.length) {
+      candidates.push([tag + stable.map((c) => `.${CSS.escape(c)}`).join(''), 'class', false]);
+    } else if (classes.length) {
+      candidates.push([tag + classes.map((c) => `.${CSS.escape(c)}`).join(''), 'class', true]);
+    }
+    candidates.push([structuralPath(el, root), 'path', false]);
+
+    return candidates
+      .map(([selector, basis, generated]): RankedSelector => {
+        const matches = count(root, selector);
+        const stability = generated ? GENERATED_STABILITY : STABILITY[basis];
+        const depth = selector.split(' > ').length - 1;
+        const penalty = Math.min(selector.length, 120) / 800 + Math.min(depth, 8) * 0.025;
+        const score = matches ? Math.max(0, stability / matches - penalty) : 0;
+        return {
+          selector,
+          score: Math.round(score * 1000) / 1000,
+          matches,
+          basis,
+          ...(generated ? { generated } : {}),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  function selector(el: Element): string {
+    const best = rank(el).find((c) => c.matches === 1);
+    return best ? best.selector : structuralPath(el, rootOf(el));
+  }
+
+  function xpath(el: Element): string {
+    const steps: string[] = [];
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      const siblings = sameTagSiblings(node);
+      steps.unshift(`${node.tagName.toLowerCase()}[${siblings.indexOf(node) + 1}]`);
+    }
+    return (isDocument(rootOf(el)) ? '/' : './') + steps.join('/');
+  }
+
+  function fingerprint(el: Element): FieldFingerprint {
+    const entries: [keyof FieldFingerprint, string | null | undefined][] = [
+      ['type', el.getAttribute('type')?.toLowerCase()],
+      ['id', el.id],
+      ['name', el.getAttribute('name')],
+      ['label', labelOf(el)],
+      ['aria', ariaOf(el)],
+      ['autocomplete', autocompleteOf(el)],
+      ['nearText', nearText(el)],
+    ];
+    const print: FieldFingerprint = { tag: el.tagName.toLowerCase(), css: selector(el), xpath: xpath(el) };
+    for (const [key, value] of entries) {
+      if (value) (print as unknown as Record<string, string>)[key] = value;
+    }
+    return print;
+  }
+
+  /* One element, or several radios of one group, counts as a unique hit */
+  function unique(elements: Element[]): Element[] | null {
+    if (elements.length < 2) return elements.length ? elements : null;
+    const name = elements[0].getAttribute('name');
+    const oneGroup =
+      !!name &&
+      elements.every((el) => (el as HTMLInputElement).type === 'radio' && el.getAttribute('name') === name);
+    return oneGroup ? elements : null;
+  }
+
+  function locateIn(
+    root: Document | ShadowRoot,
+    query: string,
+    print?: FieldFingerprint,
+  ): LocatedField | null {
+    let direct: Element[] = [];
+    try {
+      direct = Array.from(root.querySelectorAll(query));
+    } catch {
+      /* not plain CSS, e.g. a Playwright selector */
+    }
+    if (direct.length) return { elements: direct, strategy: 'selector' };
+    if (!print) return null;
+
+    /* A different tag or input type is a different field, whatever else matches */
+    const fields = Array.from(root.querySelectorAll(FIELDS)).filter((el) => {
+      const type = el.getAttribute('type')?.toLowerCase();
+      return el.tagName.toLowerCase() === print.tag && (!type || !print.type || type === print.type);
+    });
+    const byText = (value: string | undefined, read: (el: Element) => string | null | undefined) =>
+      value ? unique(fields.filter((el) => collapse(read(el)).toLowerCase() === value.toLowerCase())) : null;
+    const byQuery = (found: () => Element[]) => {
+      try {
+        return unique(found().filter((el) => fields.includes(el)));
+      } catch {
+        return null;
+      }
+    };
+
+    const attempts: [LocateStrategy, () => Element[] | null][] = [
+      ['id', () => byText(print.id, (el) => el.id)],
+      ['name', () => byText(print.name, (el) => el.getAttribute('name'))],
+      ['label', () => byText(print.label, labelOf)],
+      ['aria', () => byText(print.aria, ariaOf)],
+      ['autocomplete', () => byText(print.autocomplete, autocompleteOf)],
+      ['css', () => byQuery(() => Array.from(root.querySelectorAll(print.css)))],
+      [
+        'xpath',
+        () =>
+          byQuery(() => {
+            const doc = isDocument(root) ? root : root.ownerDocument;
+            const result = doc.evaluate(print.xpath, root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+            return Array.from({ length: result.snapshotLength }, (_, i) => result.snapshotItem(i) as Element);
+          }),
+      ],
+      ['neighbour', () => byText(print.nearText, nearText)],
+    ];
+    for (const [strategy, attempt] of attempts) {
+      const elements = attempt();
+      if (elements) return { elements, strategy };
+    }
+    return null;
+  }
+
+  function locate(locator: FieldLocator): LocatedField | null {
+    let roots: (Document | ShadowRoot)[] = [document];
+    for (const hop of locator.path) {
+      const next: (Document | ShadowRoot)[] = [];
+      for (const root of roots) {
+        let hosts: Element[] = [];
+        try {
+          hosts = Array.from(root.querySelectorAll(hop));
+        } catch {
+          return null;
+        }
+        for (const host of hosts) {
+          let inner: Document | ShadowRoot | null = null;
+          try {
+            inner = host.tagName === 'IFRAME' ? (host as HTMLIFrameElement).contentDocument : host.shadowRoot;
+          } catch {
+            /* cross-origin */
+          }
+          if (inner) next.push(inner);
+        }
+      }
+      roots = next;
+    }
+    for (const root of roots) {
+      const found = locateIn(root, locator.selector, locator.fingerprint);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  return { fingerprint, selector, rank, locate, locateIn };
+}
+
+/**
+ * Expression for Playwright's `evaluateHandle`: yields `{ element, strategy }`
+ * for the first located element, or an empty object.
+ */
+export function locateScript(locator: FieldLocator): string {
+  return `(() => {
+    const found = (${fieldKit.toString()})().locate(${JSON.stringify(locator)});
+    return found ? { element: found.elements[0], strategy: found.strategy } : {};
+  })()`;
+}
+
+/** Report line for a field found by its fingerprint rather than its selector. */
+export function describeHealing(
+  key: string,
+  strategy: LocateStrategy,
+  print: FieldFingerprint,
+): string {
+  const evidence: Partial<Record<LocateStrategy, string | undefined>> = {
+    id: print.id,
+    name: print.name,
+    label: print.label,
+    aria: print.aria,
+    autocomplete: print.autocomplete,
+    css: print.css,
+    xpath: print.xpath,
+    neighbour: print.nearText,
+  };
+  const value = evidence[strategy];
+  return `Field "${key}" healed: selector no longer matches, found by ${strategy}${
+    value ? ` ${JSON.stringify(value)}` : ''
+  }`;
+}
+
+/** Explains why `value` is not a fingerprint, or returns null when it is. */
+export function describeInvalidFingerprint(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'fingerprint must be an object';
+  const print = value as Record<string, unknown>;
+  for (const key of ['tag', 'css', 'xpath']) {
+    if (typeof print[key] !== 'string' || !(print[key] as string).trim()) {
+      return `fingerprint.${key} must be a non-empty string`;
+    }
+  }
+  for (const [key, field] of Object.entries(print)) {
+    if (typeof field !== 'string') return `fingerprint.${key} must be a string`;
+  }
+  return null;
+}
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Web Storage (`localStorage`-compatible) backend persisted to a JSON file,
+ * so `SelectorVault` can run under Node. Writes are synchronous and atomic
+ * (temp file + rename) and the file is created with owner-only permissions.
+ */
+export class FileStorage implements Storage {
+  [name: string]: unknown;
+  private data: Record<string, string> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  get length(): number {
+    return Object.keys(this.read()).length;
+  }
+
+  key(index: number): string | null {
+    return Object.keys(this.read())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    const data = this.read();
+    return Object.prototype.hasOwnProperty.call(data, key) ? data[key] : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.read()[key] = String(value);
+    this.persist();
+  }
+
+  removeItem(key: string): void {
+    const data = this.read();
+    if (!Object.prototype.hasOwnProperty.call(data, key)) return;
+    delete data[key];
+    this.persist();
+  }
+
+  clear(): void {
+    this.data = {};
+    this.persist();
+  }
+
+  private read(): Record<string, string> {
+    if (this.data) return this.data;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.data =
+        parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Storage file ${this.filePath} is unreadable or corrupt.`);
+      }
+      this.data = {};
+    }
+    return this.data!;
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.data ?? {}), { mode: 0o600 });
+    fs.renameSync(tmp, this.filePath);
+  }
+}
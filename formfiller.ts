@@ -1,15 +1,46 @@
+import { scanFields } from './domscanner.js';
+import { describeHealing, FieldFingerprint, fieldKit } from './fieldfingerprint.js';
+import { resolveFieldValue } from './mappingengine.js';
+import {
+  describeUnmatched,
+  lookupDictionary,
+  matchOption,
+  OptionCandidate,
+  radioFallback,
+} from './optionmatcher.js';
+import type { TemplateContext } from './valuetemplates.js';
+
 // --- Type Definitions for context ---
 type Primitive = string | number | boolean;
 interface FieldMapping {
     selector: string;
     column: string;
     type: string;
+    /** Iframes (index or selector), then shadow hosts, enclosing the field */
     framePath: (string | number)[];
+    /** Composed value, used instead of `column` (see valuetemplates.ts) */
+    template?: string;
+    /** Value pipeline, e.g. `trim | title` (see valuetransforms.ts) */
+    transform?: string;
+    /** Row predicate; the field is skipped when it does not match */
+    when?: string;
+    /** Skip the field instead of clearing it when the value is blank */
+    skipEmpty?: boolean;
+    /** Sheet value -> option value for select, radio and checkbox fields */
+    options?: Record<string, string>;
+    /** Fuzzy option matching fallback; defaults to true */
+    fuzzy?: boolean;
+    /** Finds the field when `selector` no longer matches (see fieldfingerprint.ts) */
+    fingerprint?: FieldFingerprint;
 }
 interface FillOptions {
     scrollIntoView?: boolean;
     minDelay?: number;
     maxDelay?: number;
+    /** Row number and constants for mapping templates */
+    context?: TemplateContext;
+    /** Told about each field found by its fingerprint instead of its selector */
+    onHealed?: (message: string) => void;
 }
 
 
@@ -17,7 +48,12 @@ const DEFAULT_OPTIONS: Required<FillOptions> = {
   scrollIntoView: true,
   minDelay: 30,
   maxDelay: 140,
+  context: {},
+  onHealed: () => undefined,
 };
+
+const fields = fieldKit();
+
 export class FormFiller {
   /*********************************************************
    * PUBLIC API
@@ -28,18 +64,13 @@ export class FormFiller {
    * returns a list of form field mappings.
    */
   public static scanPage(): FieldMapping[] {
-    const mappings: FieldMapping[] = [];
-    this._walkContext(window, [], (el, framePath) => {
-      if (this._isFillable(el)) {
-        mappings.push({
-          column: `COL_${mappings.length + 1}`,
-          selector: this._getUniqueSelector(el),
-          framePath: [...framePath],
-          type: (el as HTMLElement).tagName.toLowerCase(),
-        });
-      }
-    });
-    return mappings;
+    return scanFields({}, fields).map((field, i) => ({
+      column: `COL_${i + 1}`,
+      selector: field.selector,
+      framePath: [...field.framePath, ...field.shadowPath],
+      type: field.tag,
+      fingerprint: field.fingerprint,
+    }));
   }
 
   /**
@@ -48,23 +79,30 @@ export class FormFiller {
    * @param rowData   Key/value object where key is column header.
    * @param mappings  Mappings returned by `scanPage` (can be trimmed / re-ordered).
    * @param opts      Behavioural options.
+   * @returns           One message per field that could not be filled
+   *                    (unmatched option, failed transform); empty on success.
    */
   public static async fillRow(
     rowData: Record<string, Primitive>,
     mappings: FieldMapping[],
     opts: FillOptions = {},
-  ): Promise<void> {
+  ): Promise<string[]> {
     const options = { ...DEFAULT_OPTIONS, ...opts };
+    const errors: string[] = [];
     for (const map of mappings) {
-      if (!(map.column in rowData)) continue;
-      const value = rowData[map.column] as Primitive;
-      if (value === undefined || value === null) continue;
-      // Resolve element reference
-      const element = this._resolveElement(map);
-      if (!element) continue;
-
-      await this._applyValue(element, value, options);
+      try {
+        const value = this._resolveValue(map, rowData, options.context);
+        if (value === undefined || value === null) continue;
+        // Resolve element reference
+        const element = this._resolveElement(map, options);
+        if (!element) continue;
+
+        await this._applyValue(element, value, options, map);
+      } catch (err) {
+        errors.push(`Field "${map.selector}" -> ${err instanceof Error ? err.message : String(err)}`);
+      }
     }
+    return errors;
   }
 
   /*********************************************************
@@ -75,6 +113,7 @@ export class FormFiller {
     element: Element,
     value: Primitive,
     opts: Required<FillOptions>,
+    map: FieldMapping,
   ): Promise<void> {
     if (!(element as HTMLElement).isConnected) return;
     if (opts.scrollIntoView) {
@@ -94,12 +133,15 @@ export class FormFiller {
 
     switch (tag) {
       case 'select':
-        await this._setSelectValue(element as HTMLSelectElement, String(value));
+        await this._setSelectValue(element as HTMLSelectElement, String(value), map);
         break;
 
       case 'input':
-        if (['checkbox', 'radio'].includes(typeAttr)) {
-          await this._toggleCheckable(element as HTMLInputElement, Boolean(value));
+        if (typeAttr === 'radio') {
+          await this._chooseRadio(element as HTMLInputElement, value, map);
+        } else if (typeAttr === 'checkbox') {
+          const mapped = lookupDictionary(String(value), map.options);
+          await this._toggleCheckable(element as HTMLInputElement, this._toBoolean(mapped ?? value));
         } else {
           await this._typeText(element as HTMLInputElement, String(value), opts);
         }
@@ -158,16 +200,54 @@ export class FormFiller {
     this._dispatchEvents(el, ['blur', 'change']);
   }
 
-  private static async _setSelectValue(el: HTMLSelectElement, value: string): Promise<void> {
-    const option = Array.from(el.options).find(
-      (o) => o.value === value || o.textContent?.trim() === value,
-    );
-    if (option) {
-      el.value = option.value;
+  private static async _setSelectValue(
+    el: HTMLSelectElement,
+    value: string,
+    map: FieldMapping,
+  ): Promise<void> {
+    const candidates = Array.from(el.options).map((o) => ({
+      value: o.value,
+      label: o.textContent?.trim() ?? '',
+    }));
+    const match = matchOption(value, candidates, { dictionary: map.options, fuzzy: map.fuzzy });
+    if (!match) throw new Error(describeUnmatched(value, candidates));
+    if (el.selectedIndex !== match.index) {
+      el.selectedIndex = match.index;
       this._dispatchEvents(el, ['input', 'change']);
     }
   }
 
+  /**
+   * Checks the radio in `el`'s group whose value or label matches, falling
+   * back to `radioFallback` when none does.
+   */
+  private static async _chooseRadio(
+    el: HTMLInputElement,
+    value: Primitive,
+    map: FieldMapping,
+  ): Promise<void> {
+    const root: ParentNode = el.form ?? (el.getRootNode() as ParentNode);
+    const group = el.name
+      ? Array.from(root.querySelectorAll<HTMLInputElement>('input[type="radio"]')).filter(
+          (r) => r.name === el.name,
+        )
+      : [el];
+    const candidates: OptionCandidate[] = group.map((r) => ({
+      value: r.value,
+      label: (r.labels?.[0]?.textContent ?? r.getAttribute('aria-label') ?? '').trim(),
+    }));
+
+    const text = String(value);
+    const match = matchOption(text, candidates, { dictionary: map.options, fuzzy: map.fuzzy });
+    if (match) {
+      await this._toggleCheckable(group[match.index], true);
+      return;
+    }
+    const fallback = radioFallback(text, map.options);
+    if (!fallback) throw new Error(describeUnmatched(text, candidates));
+    if (fallback === 'check') await this._toggleCheckable(el, true);
+  }
+
   private static async _toggleCheckable(el: HTMLInputElement, checked: boolean): Promise<void> {
     if (el.checked !== checked) {
       el.click();
@@ -175,61 +255,11 @@ export class FormFiller {
     }
   }
 
-  /*********************************************************
-   * DOM TRAVERSAL
-   *********************************************************/
-
-  private static _walkContext(
-    win: Window,
-    path: (string | number)[],
-    cb: (el: Element, framePath: (string | number)[]) => void,
-  ): void {
-    const visitRoot = (root: ParentNode, currentPath: (string | number)[]) => {
-      try {
-        // Invoke callback on fillable elements within current root
-        const elements = root.querySelectorAll<HTMLElement>(
-          'input, select, textarea, [contenteditable]',
-        );
-        elements.forEach((el) => cb(el, currentPath));
-
-        // Traverse nested shadowRoots
-        root.querySelectorAll<HTMLElement>('*').forEach((node) => {
-          // @ts-ignore
-          if (node.shadowRoot) {
-            const hostSelector = this._getUniqueSelector(node);
-            const nextPath = currentPath.concat(hostSelector);
-            visitRoot((node as HTMLElement).shadowRoot, nextPath);
-          }
-        });
-      } catch {
-        /* ignore */
-      }
-    };
-
-    try {
-      const doc = win.document;
-      visitRoot(doc, path);
-      // Walk iframes
-      const frames = doc.querySelectorAll('iframe');
-      frames.forEach((frame, idx) => {
-        try {
-          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          const childWin = (frame as HTMLIFrameElement).contentWindow!;
-          this._walkContext(childWin, path.concat(idx), cb);
-        } catch {
-          /* cross-origin */
-        }
-      });
-    } catch {
-      /* ignore */
-    }
-  }
-
   /*********************************************************
    * ELEMENT RESOLUTION
    *********************************************************/
 
-  private static _resolveElement(map: FieldMapping): Element | null {
+  private static _resolveElement(map: FieldMapping, opts: Required<FillOptions>): Element | null {
     let ctx: Document | ShadowRoot | null = document;
     let currentWin: Window | null = window;
 
@@ -240,27 +270,24 @@ export class FormFiller {
         currentWin = iframe.contentWindow;
         ctx = currentWin.document;
       } else {
-        // ShadowRoot navigation via CSS selector
+        // Iframe or ShadowRoot navigation via CSS selector
         const host = ctx?.querySelector(hop as string) as HTMLElement;
-        // @ts-ignore
-        ctx = host?.shadowRoot ?? null;
+        if (host?.tagName === 'IFRAME') {
+          currentWin = (host as HTMLIFrameElement).contentWindow;
+          ctx = currentWin?.document ?? null;
+        } else {
+          // @ts-ignore
+          ctx = host?.shadowRoot ?? null;
+        }
       }
     }
 
-    return ctx?.querySelector(map.selector) ?? null;
-  }
-
-  private static _isFillable(el: Element): boolean {
-    if (el instanceof HTMLInputElement) {
-      const type = el.type?.toLowerCase?.() ?? '';
-      if (['hidden', 'submit', 'reset', 'button', 'image', 'file'].includes(type)) return false;
-      return true;
+    if (!ctx) return null;
+    const found = fields.locateIn(ctx, map.selector, map.fingerprint);
+    if (found && found.strategy !== 'selector' && map.fingerprint) {
+      opts.onHealed(describeHealing(map.selector, found.strategy, map.fingerprint));
     }
-    return (
-      el instanceof HTMLTextAreaElement ||
-      el instanceof HTMLSelectElement ||
-      (el as HTMLElement).isContentEditable
-    );
+    return found?.elements[0] ?? null;
   }
 
   /*********************************************************
@@ -274,50 +301,46 @@ export class FormFiller {
     });
   }
 
-  private static _sleep(ms: number): Promise<void> {
-    return new Promise((r) => setTimeout(r, ms));
+  /**
+   * Plain column mappings keep the raw primitive; rules go through
+   * MappingEngine so templates, transforms and conditions match the CLI.
+   */
+  private static _resolveValue(
+    map: FieldMapping,
+    rowData: Record<string, Primitive>,
+    context: TemplateContext,
+  ): Primitive | undefined {
+    const plain =
+      map.template === undefined && !map.transform && map.when === undefined && !map.skipEmpty;
+    if (plain) return map.column in rowData ? rowData[map.column] : undefined;
+    const { column, template, transform, when, skipEmpty } = map;
+    return resolveFieldValue(
+      { column, template, transform, when, skipEmpty },
+      this._stringValues(rowData),
+      context,
+    );
   }
 
-  private static _rand(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+  private static _stringValues(rowData: Record<string, Primitive>): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [key, value] of Object.entries(rowData)) {
+      out[key] = value === undefined || value === null ? '' : String(value);
+    }
+    return out;
   }
 
-  /**
-   * Builds a unique selector using element id, class and nth-child fallbacks.
-   */
-  private static _getUniqueSelector(el: Element): string {
-    if (el.id) return `#${CSS.escape(el.id)}`;
-
-    const parts: string[] = [];
-    let node: Element | null = el;
-
-    while (node && node.nodeType === 1 && node !== document.documentElement) {
-      let selector = node.nodeName.toLowerCase();
-      if (node.className) {
-        const cls = node.className
-          .split(/\s+/)
-          .filter((c) => !!c)
-          .map((c) => `.${CSS.escape(c)}`)
-          .join('');
-        selector += cls;
-      }
-
-      const parent = node.parentElement;
-      if (parent) {
-        const siblings = Array.from(parent.children).filter(
-          (n) => n.nodeName.toLowerCase() === node!.nodeName.toLowerCase(),
-        );
-        if (siblings.length > 1) {
-          const idx = siblings.indexOf(node) + 1;
-          selector += `:nth-of-type(${idx})`;
-        }
-      }
+  /** Transformed values arrive as strings, so "false" / "0" must not check a box. */
+  private static _toBoolean(value: Primitive): boolean {
+    if (typeof value !== 'string') return Boolean(value);
+    return ['1', 'true', 'yes', 'on', 'y', 'x'].includes(value.trim().toLowerCase());
+  }
 
-      parts.unshift(selector);
-      node = parent;
-    }
+  private static _sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+  }
 
-    return parts.join(' > ');
+  private static _rand(min: number, max: number): number {
+    return Math.floor(Math.random() * (max - min + 1)) + min;
   }
 
   private static _getNodeIndex(node: Element): number {
@@ -1,7 +1,113 @@
 import { EventEmitter } from 'events';
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, Browser, ElementHandle, Frame, LaunchOptions, Page } from 'playwright';
 import fs from 'fs';
 import path from 'path';
+import { FormTarget, insideForm, ScannedForm, ScanOptions, scanScript } from './domscanner.js';
+import {
+  describeHealing,
+  FieldFingerprint,
+  fieldLocator,
+  LocateStrategy,
+  locateScript,
+} from './fieldfingerprint.js';
+import { checkScript, TargetCheck, targetRequest } from './mappingcheck.js';
+import { resolveFieldValue } from './mappingengine.js';
+import {
+  describeUnmatched,
+  lookupDictionary,
+  matchOption,
+  OptionCandidate,
+  radioFallback,
+} from './optionmatcher.js';
+
+/* ?????????????????????????????????????????????????????????????????????????? */
+/* Types                                                                    */
+/* ?????????????????????????????????????????????????????????????????????????? */
+
+/** One unit of work: a data row keyed by column name. */
+export interface Row {
+  id: string | number;
+  data: Record<string, string>;
+  /** Overrides `RunnerOptions.defaultUrl` for this row. */
+  url?: string;
+}
+
+export interface MappingEntry {
+  selector: string;
+  /** Source column; omit when `template` composes the value */
+  valueColumn?: string;
+  /** e.g. `{{first_name}} {{last_name}}` (see valuetemplates.ts) */
+  template?: string;
+  /** text (default), checkbox, radio, select or button */
+  type?: string;
+  /** Expected input, e.g. `email` or `tel`; informational */
+  inputFormat?: string;
+  /** Value pipeline applied before filling, e.g. `trim | upper` */
+  transform?: string;
+  /** Row predicate; the field is skipped when it does not match */
+  when?: string;
+  /** Skip the field instead of clearing it when the value is blank */
+  skipEmpty?: boolean;
+  /** Sheet value -> option value for select, radio and checkbox fields */
+  options?: Record<string, string>;
+  /** Fuzzy option matching fallback; defaults to true */
+  fuzzy?: boolean;
+  /** Selectors of the iframes enclosing the field, outermost first */
+  framePath?: string[];
+  /** Selectors of the shadow hosts enclosing the field, outermost first */
+  shadowPath?: string[];
+  /** Random pause before filling the field, in milliseconds */
+  minDelayMs?: number;
+  maxDelayMs?: number;
+  /** Finds the field when `selector` no longer matches (see fieldfingerprint.ts) */
+  fingerprint?: FieldFingerprint;
+}
+
+export interface FillResult {
+  success: boolean;
+  errors?: string[];
+  /** Fields found by their fingerprint because the selector no longer matched */
+  healed?: string[];
+  /** The form's submit control was clicked */
+  submitted?: boolean;
+  artifacts?: Record<string, string>;
+}
+
+/** Destination for per-row results (e.g. the source sheet). */
+export interface ResultWriter {
+  write(row: Row, result: FillResult): Promise<void>;
+  /** Called once after the last row to push anything still buffered. */
+  flush?(): Promise<void>;
+}
+
+export interface RunnerOptions {
+  browserLaunchOptions?: LaunchOptions;
+  freshPagePerRow?: boolean;
+  artifactsDir?: string;
+  defaultUrl?: string;
+  navigationTimeoutMs?: number;
+  /** When omitted, results are appended to `fill-results.log`. */
+  resultWriter?: ResultWriter;
+  /** Values for `$const.NAME` in mapping templates. */
+  constants?: Record<string, string>;
+  /**
+   * Picks the mapping for the loaded page URL; the constructor mapping is
+   * used when it returns undefined. Throwing fails the row.
+   */
+  mappingForUrl?: (url: string) => Record<string, MappingEntry> | undefined;
+  /**
+   * Limits filling to one form of the page and, when it names a submit
+   * control, submits it after every field filled (see domscanner.ts).
+   */
+  form?: FormTarget;
+}
+
+/** The chosen form as found on the current page */
+interface ResolvedForm {
+  target: FormTarget;
+  frame: Frame;
+  handle: ElementHandle;
+}
 
 function parseBoolean(value: unknown): boolean {
   if (typeof value === 'boolean') return value;
@@ -10,22 +116,43 @@ function parseBoolean(value: unknown): boolean {
   return ['1', 'true', 'yes', 'on'].includes(str);
 }
 
+/**
+ * Runs in the page: lists the radio group `node` belongs to and, when
+ * `pick` is given, checks that member.
+ */
+function radioGroup(node: Element, pick: number | null): OptionCandidate[] {
+  const input = node as HTMLInputElement;
+  const root: ParentNode = input.form ?? (input.getRootNode() as ParentNode);
+  const group = input.name
+    ? Array.from(root.querySelectorAll<HTMLInputElement>('input[type="radio"]')).filter(
+        (r) => r.name === input.name,
+      )
+    : [input];
+  if (pick !== null && group[pick] && !group[pick].checked) group[pick].click();
+  return group.map((r) => ({
+    value: r.value,
+    label: (r.labels?.[0]?.textContent ?? r.getAttribute('aria-label') ?? '').trim(),
+  }));
+}
+
 /* ?????????????????????????????????????????????????????????????????????????? */
 /* FormFillerRunner                                                         */
 /* ?????????????????????????????????????????????????????????????????????????? */
 
 export class FormFillerRunner extends EventEmitter {
   private readonly mapping: Record<string, MappingEntry>;
-  private readonly rows: Row[];
+  private readonly rows: Iterable<Row> | AsyncIterable<Row>;
   private readonly options: RunnerOptions;
 
   private browser!: Browser;
   private page!: Page;
   private aborted = false;
+  /** The current page's form was submitted, so it must be loaded afresh */
+  private pageSubmitted = false;
 
   constructor(
     mapping: Record<string, MappingEntry>,
-    rows: Row[],
+    rows: Iterable<Row> | AsyncIterable<Row>,
     options: RunnerOptions = {},
   ) {
     super();
@@ -41,7 +168,7 @@ export class FormFillerRunner extends EventEmitter {
         this.options.browserLaunchOptions ?? {},
       );
 
-      for (const row of this.rows) {
+      for await (const row of this.rows) {
         if (this.aborted) break;
 
         this.emit('row-start', row);
@@ -56,7 +183,7 @@ export class FormFillerRunner extends EventEmitter {
 
           if (!this.aborted) {
             result.artifacts = await this.captureArtifacts(row.id);
-            await this.writeBackResult(row.id, result);
+            await this.writeBackResult(row, result);
             this.emit('row-done', row, result);
           }
         } catch (err) {
@@ -67,11 +194,59 @@ export class FormFillerRunner extends EventEmitter {
           };
           if (!this.aborted) {
             result.artifacts = await this.captureArtifacts(row.id);
-            await this.writeBackResult(row.id, result);
+            await this.writeBackResult(row, result);
             this.emit('row-done', row, result);
           }
         }
       }
+    } finally {
+      await this.flushResults();
+      await this.dispose();
+    }
+  }
+
+  /**
+   * Opens `url` (or the default URL) and checks every mapping entry's
+   * target without filling anything.
+   */
+  public async checkPage(url = this.options.defaultUrl): Promise<TargetCheck[]> {
+    try {
+      this.browser = await chromium.launch(this.options.browserLaunchOptions ?? {});
+      this.page = await this.browser.newPage();
+      await this.navigate({ id: 'check', data: {}, url });
+      const mapping = this.options.mappingForUrl?.(this.page.url()) ?? this.mapping;
+
+      const checks: TargetCheck[] = [];
+      for (const [key, entry] of Object.entries(mapping)) {
+        let frame: Frame;
+        try {
+          frame = await this.resolveFrame(entry);
+        } catch (err) {
+          const detail = err instanceof Error ? err.message : String(err);
+          checks.push({ selector: key, status: 'missing', matches: 0, detail });
+          continue;
+        }
+        /* Frames are resolved by Playwright, so cross-origin frames work too */
+        const request = targetRequest(entry.selector, { ...entry, framePath: [] });
+        const [check] = (await frame.evaluate(checkScript([{ ...request, selector: key }]))) as TargetCheck[];
+        checks.push(check);
+      }
+      return checks;
+    } finally {
+      await this.dispose();
+    }
+  }
+
+  /**
+   * Opens `url` (or the default URL) and scans its forms with the
+   * extension's scanner, so the result can be used wherever a popup scan can.
+   */
+  public async scanPage(url = this.options.defaultUrl, options: ScanOptions = {}): Promise<ScannedForm[]> {
+    try {
+      this.browser = await chromium.launch(this.options.browserLaunchOptions ?? {});
+      this.page = await this.browser.newPage();
+      await this.navigate({ id: 'scan', data: {}, url });
+      return (await this.page.evaluate(scanScript(options))) as ScannedForm[];
     } finally {
       await this.dispose();
     }
@@ -87,32 +262,67 @@ export class FormFillerRunner extends EventEmitter {
   /** Fills a single row and returns success / error info */
   private async fillRow(row: Row): Promise<FillResult> {
     const errors: string[] = [];
-    for (const key of Object.keys(this.mapping)) {
+    const healed: string[] = [];
+    const mapping = this.options.mappingForUrl?.(this.page.url()) ?? this.mapping;
+    const form = this.options.form ? await this.resolveForm(this.options.form) : undefined;
+    for (const key of Object.keys(mapping)) {
       this.ensureNotAborted();
 
-      const entry = this.mapping[key];
-      const value = row.data[entry.valueColumn];
+      const entry = mapping[key];
 
       try {
-        await this.page.waitForSelector(entry.selector, {
-          timeout: 5000,
-        });
-        const el = await this.page.$(entry.selector);
-        if (!el)
-          throw new Error(`Element not found for selector ${entry.selector}`);
+        const value = resolveFieldValue(
+          {
+            column: entry.valueColumn,
+            template: entry.template,
+            transform: entry.transform,
+            when: entry.when,
+            skipEmpty: entry.skipEmpty,
+          },
+          row.data,
+          { rowNumber: row.id, constants: this.options.constants },
+        );
+        if (value === undefined) continue;
+        const frame = await this.resolveFrame(entry);
+        const el = await this.findElement(
+          frame,
+          entry,
+          (strategy, fingerprint) => healed.push(describeHealing(key, strategy, fingerprint)),
+          form,
+        );
+        await this.fieldDelay(entry);
 
         switch (entry.type) {
-          case 'checkbox':
-          case 'radio': {
+          case 'radio':
+            await this.chooseRadio(el, value, entry);
+            break;
+          case 'checkbox': {
             const isChecked = await el.isChecked();
-            const shouldBeChecked = parseBoolean(value);
+            const shouldBeChecked = parseBoolean(lookupDictionary(value, entry.options) ?? value);
             if (shouldBeChecked !== isChecked) {
               await el.click({ delay: this.humanDelay() });
             }
             break;
           }
           case 'select': {
-            await el.selectOption(String(value));
+            const candidates = await el.$$eval('option', (options) =>
+              options.map((o) => ({
+                value: (o as HTMLOptionElement).value,
+                label: (o.textContent ?? '').trim(),
+              })),
+            );
+            const match = matchOption(value, candidates, {
+              dictionary: entry.options,
+              fuzzy: entry.fuzzy,
+            });
+            if (!match) throw new Error(describeUnmatched(value, candidates));
+            await el.selectOption({ index: match.index });
+            break;
+          }
+          case 'button': {
+            if (parseBoolean(lookupDictionary(value, entry.options) ?? value)) {
+              await el.click({ delay: this.humanDelay() });
+            }
             break;
           }
           default: {
@@ -124,12 +334,149 @@ export class FormFillerRunner extends EventEmitter {
       }
     }
 
+    let submitted = false;
+    if (form?.target.submit && errors.length === 0) {
+      this.ensureNotAborted();
+      this.pageSubmitted = true;
+      try {
+        await this.submitForm(form, form.target.submit);
+        submitted = true;
+      } catch (err: any) {
+        errors.push(`Submit "${form.target.submit}" -> ${err.message ?? String(err)}`);
+      }
+    }
+
     return {
       success: errors.length === 0,
       errors: errors.length ? errors : undefined,
+      healed: healed.length ? healed : undefined,
+      submitted: submitted || undefined,
     };
   }
 
+  /** Finds the chosen form on the current page; throwing fails the row */
+  private async resolveForm(target: FormTarget): Promise<ResolvedForm> {
+    const frame = await this.resolveFrame(target);
+    const selector = [...(target.shadowPath ?? []), target.selector].join(' >> ');
+    let handle: ElementHandle | null = null;
+    try {
+      handle = await frame.waitForSelector(selector, { timeout: 5000 });
+    } catch {
+      /* reported below */
+    }
+    if (!handle) throw new Error(`Form not found for selector ${target.selector}`);
+    return { target, frame, handle };
+  }
+
+  /**
+   * Clicks the first `submit` match that belongs to the form, so another
+   * form's button with the same selector is never used, then waits for the
+   * page to settle.
+   */
+  private async submitForm(form: ResolvedForm, submit: string): Promise<void> {
+    const selector = [...(form.target.shadowPath ?? []), submit].join(' >> ');
+    await form.frame.waitForSelector(selector, { timeout: 5000 });
+    let control: ElementHandle | undefined;
+    for (const candidate of await form.frame.$$(selector)) {
+      if (await form.handle.evaluate(insideForm, candidate)) {
+        control = candidate;
+        break;
+      }
+    }
+    if (!control) throw new Error('submit control not found in the form');
+    await control.click({ delay: this.humanDelay() });
+    await this.page.waitForLoadState('networkidle');
+  }
+
+  /**
+   * Waits for the entry's selector; when it times out and the entry has a
+   * fingerprint, looks the field up by the fingerprint instead. With a
+   * `form`, only elements inside it count.
+   */
+  private async findElement(
+    frame: Frame,
+    entry: MappingEntry,
+    onHealed: (strategy: LocateStrategy, fingerprint: FieldFingerprint) => void,
+    form?: ResolvedForm,
+  ): Promise<ElementHandle> {
+    let shadowPath = entry.shadowPath ?? [];
+    if (form) {
+      /* A form never spans documents: the field must share its frame and shadow hosts */
+      const formShadow = form.target.shadowPath ?? [];
+      const sameFrame = (entry.framePath ?? []).join('\n') === (form.target.framePath ?? []).join('\n');
+      if (!sameFrame || formShadow.some((host, i) => shadowPath[i] !== host)) {
+        throw new Error(`Field is outside the form ${form.target.selector}`);
+      }
+      shadowPath = shadowPath.slice(formShadow.length);
+    }
+    /* Playwright CSS pierces open shadow roots; `>>` scopes to each host */
+    const selector = [...shadowPath, entry.selector].join(' >> ');
+    try {
+      const el = form
+        ? await form.handle.waitForSelector(selector, { timeout: 5000 })
+        : await frame.waitForSelector(selector, { timeout: 5000 });
+      if (el) return el;
+    } catch (err) {
+      if (!entry.fingerprint) throw err;
+    }
+    if (entry.fingerprint) {
+      const locator = fieldLocator(entry.selector, { ...entry, framePath: [] });
+      const found = await frame.evaluateHandle(locateScript(locator));
+      const el = (await found.getProperty('element')).asElement();
+      if (el && (!form || (await form.handle.evaluate(insideForm, el)))) {
+        const strategy = (await (await found.getProperty('strategy')).jsonValue()) as LocateStrategy;
+        onHealed(strategy, entry.fingerprint);
+        return el as ElementHandle;
+      }
+    }
+    throw new Error(`Element not found for selector ${entry.selector}`);
+  }
+
+  /** Descends through `location.framePath` to the frame holding the field or form */
+  private async resolveFrame(location: { framePath?: string[] }): Promise<Frame> {
+    let frame = this.page.mainFrame();
+    for (const selector of location.framePath ?? []) {
+      const host = await frame.waitForSelector(selector, { timeout: 5000 });
+      const child = await host?.contentFrame();
+      if (!child) throw new Error(`No frame found for selector ${selector}`);
+      frame = child;
+    }
+    return frame;
+  }
+
+  /** Waits a random time within the entry's delay range, if it has one */
+  private async fieldDelay(entry: MappingEntry): Promise<void> {
+    if (entry.minDelayMs === undefined && entry.maxDelayMs === undefined) return;
+    const min = entry.minDelayMs ?? 0;
+    const max = Math.max(min, entry.maxDelayMs ?? min);
+    await this.page.waitForTimeout(min + Math.random() * (max - min));
+  }
+
+  /**
+   * Checks the member of `el`'s radio group that matches `value`, falling
+   * back to `radioFallback` when none does.
+   */
+  private async chooseRadio(
+    el: ElementHandle,
+    value: string,
+    entry: MappingEntry,
+  ): Promise<void> {
+    const candidates = await el.evaluate(radioGroup, null);
+    const match = matchOption(value, candidates, {
+      dictionary: entry.options,
+      fuzzy: entry.fuzzy,
+    });
+    if (match) {
+      await el.evaluate(radioGroup, match.index);
+      return;
+    }
+    const fallback = radioFallback(value, entry.options);
+    if (!fallback) throw new Error(describeUnmatched(value, candidates));
+    if (fallback === 'check' && !(await el.isChecked())) {
+      await el.click({ delay: this.humanDelay() });
+    }
+  }
+
   /** Takes screenshot & html snapshot, returns map rowId -> artifactPath */
   private async captureArtifacts(
     rowId: string | number,
@@ -164,13 +511,21 @@ export class FormFillerRunner extends EventEmitter {
     return artifacts;
   }
 
-  /** Writes result back (stub ? extend with Sheets/DB integration) */
-  private async writeBackResult(
-    rowId: string | number,
-    result: FillResult,
-  ): Promise<void> {
+  /** Writes result back through the configured writer, or to a local log */
+  private async writeBackResult(row: Row, result: FillResult): Promise<void> {
+    if (this.options.resultWriter) {
+      try {
+        await this.options.resultWriter.write(row, result);
+      } catch (err) {
+        /* A failed write-back must not abort the remaining rows */
+        console.error(`Failed to write back result for row ${row.id}:`, err);
+        this.emit('write-failed', err, row);
+      }
+      return;
+    }
+
     const logFile = path.resolve('fill-results.log');
-    const logLine = JSON.stringify({ rowId, ...result });
+    const logLine = JSON.stringify({ rowId: row.id, ...result });
 
     try {
       await fs.promises.mkdir(path.dirname(logFile), { recursive: true });
@@ -181,6 +536,16 @@ export class FormFillerRunner extends EventEmitter {
     }
   }
 
+  /** Pushes any buffered write-back results */
+  private async flushResults(): Promise<void> {
+    try {
+      await this.options.resultWriter?.flush?.();
+    } catch (err) {
+      console.error('Failed to flush results:', err);
+      this.emit('write-failed', err);
+    }
+  }
+
   /** Allows external caller to abort current processing queue */
   public abort(): void {
     this.aborted = true;
@@ -205,7 +570,7 @@ export class FormFillerRunner extends EventEmitter {
       throw new Error('No target URL specified');
     }
 
-    if (this.page.url() === targetUrl) return;
+    if (this.page.url() === targetUrl && !this.pageSubmitted) return;
 
     const timeout = this.options.navigationTimeoutMs ?? 30000;
     // Attempt navigation in shorter chunks to allow early aborts
@@ -223,6 +588,7 @@ export class FormFillerRunner extends EventEmitter {
 
     this.ensureNotAborted();
     await this.page.waitForLoadState('networkidle');
+    this.pageSubmitted = false;
   }
 
   /** Returns a pseudo-random human-like typing delay */
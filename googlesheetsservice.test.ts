@@ -0,0 +1,200 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { jest } from '@jest/globals';
+import { Credentials, OAuth2Client } from 'google-auth-library';
+import { FakeWorkbook } from './fakesheets.js';
+import { FileStorage } from './filestorage.js';
+import { a1Range, columnLetter, GoogleSheetsService, quoteSheetName } from './googlesheetsservice.js';
+import SelectorVault from './selectorvault.js';
+import { RequestScheduler } from './sheetsscheduler.js';
+
+function service(book: FakeWorkbook): GoogleSheetsService {
+  return new GoogleSheetsService({
+    client: book.client(),
+    scheduler: new RequestScheduler({ baseDelayMs: 1, maxDelayMs: 5 }),
+  });
+}
+
+describe('A1 helpers', () => {
+  it('converts column indexes to letters', () => {
+    expect(columnLetter(0)).toBe('A');
+    expect(columnLetter(25)).toBe('Z');
+    expect(columnLetter(26)).toBe('AA');
+    expect(columnLetter(701)).toBe('ZZ');
+  });
+
+  it('quotes worksheet names that need it', () => {
+    expect(quoteSheetName('Leads')).toBe('Leads');
+    expect(quoteSheetName('Sign ups')).toBe("'Sign ups'");
+    expect(quoteSheetName('A1')).toBe("'A1'");
+    expect(quoteSheetName("Bob's")).toBe("'Bob''s'");
+    expect(a1Range('Sign ups', 'A2', 'ZZ')).toBe("'Sign ups'!A2:ZZ");
+    expect(a1Range(undefined, 'B3')).toBe('B3');
+  });
+});
+
+describe('GoogleSheetsService', () => {
+  const grid = () => ({
+    Leads: [
+      ['Notes'],
+      ['name', 'email', '', 'name'],
+      ['Ada', 'ada@example.com', 'x', 'dup'],
+      [],
+      ['Bo', ''],
+    ],
+  });
+
+  it('reads records below the header row, skipping blank rows', async () => {
+    const book = new FakeWorkbook('sheet-1', grid());
+    const { headers, records } = await service(book).fetchRecords('sheet-1', 'Leads', { headerRow: 2 });
+    expect(headers).toEqual(['name', 'email', '', 'name']);
+    expect(records).toEqual([
+      { rowNumber: 3, values: { name: 'Ada', email: 'ada@example.com' } },
+      { rowNumber: 5, values: { name: 'Bo', email: '' } },
+    ]);
+  });
+
+  it('keeps blank rows on request', async () => {
+    const book = new FakeWorkbook('sheet-1', grid());
+    const { records } = await service(book).fetchRecords('sheet-1', 'Leads', {
+      headerRow: 2,
+      includeBlank: true,
+    });
+    expect(records.map((r) => r.rowNumber)).toEqual([3, 4, 5]);
+  });
+
+  it('treats an empty worksheet as having no headers or records', async () => {
+    const book = new FakeWorkbook('sheet-1', { Empty: [] });
+    const sheets = service(book);
+    await expect(sheets.fetchRecords('sheet-1', 'Empty')).resolves.toEqual({ headers: [], records: [] });
+    await expect(sheets.fetchHeaders('sheet-1', 'Empty')).resolves.toEqual([]);
+  });
+
+  it('rejects an invalid header row', async () => {
+    const sheets = service(new FakeWorkbook('sheet-1', grid()));
+    await expect(sheets.fetchRecords('sheet-1', 'Leads', { headerRow: 0 })).rejects.toThrow(
+      'headerRow must be a positive integer.',
+    );
+  });
+
+  it('reads a single header row', async () => {
+    const book = new FakeWorkbook('sheet-1', grid());
+    await expect(service(book).fetchHeaders('sheet-1', 'Leads', 2)).resolves.toEqual([
+      'name',
+      'email',
+      '',
+      'name',
+    ]);
+    expect(book.requests).toEqual([{ method: 'values.get', ranges: ['Leads!2:2'] }]);
+  });
+
+  it('writes several ranges in one batchUpdate', async () => {
+    const book = new FakeWorkbook('sheet-1', grid());
+    await service(book).batchUpdateValues('sheet-1', [
+      { range: 'Leads!C3', values: [['OK']] },
+      { range: 'Leads!C5:D5', values: [['FAILED', 'timeout']] },
+    ]);
+    expect(book.requests).toHaveLength(1);
+    expect(book.sheet('Leads')[2][2]).toBe('OK');
+    expect(book.sheet('Leads')[4].slice(2)).toEqual(['FAILED', 'timeout']);
+  });
+
+  it('sends nothing for an empty batch', async () => {
+    const book = new FakeWorkbook('sheet-1', grid());
+    await service(book).batchUpdateValues('sheet-1', []);
+    expect(book.requests).toEqual([]);
+  });
+
+  it('updates and appends rows', async () => {
+    const book = new FakeWorkbook('sheet-1', { Sheet1: [['a', 'b']] });
+    const sheets = service(book);
+    await sheets.updateRows('sheet-1', 'A1:B1', [['x', 'y']]);
+    await sheets.appendRow('sheet-1', ['1', '2']);
+    expect(book.sheet('Sheet1')).toEqual([
+      ['x', 'y'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('retries transient failures', async () => {
+    const book = new FakeWorkbook('sheet-1', grid());
+    book.failNext(503);
+    book.failNext(429, { retryAfterSeconds: 0, reason: 'rateLimitExceeded' });
+    await expect(service(book).fetchHeaders('sheet-1', 'Leads', 2)).resolves.toHaveLength(4);
+    expect(book.requests).toHaveLength(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const book = new FakeWorkbook('sheet-1', grid());
+    await expect(service(book).fetchHeaders('other-sheet', 'Leads')).rejects.toMatchObject({ code: 404 });
+    expect(book.requests).toHaveLength(1);
+  });
+
+  it('recovers from the fake quota', async () => {
+    let now = 0;
+    const book = new FakeWorkbook('sheet-1', grid());
+    const sheets = new GoogleSheetsService({
+      client: book.client({ quotaPerMinute: 1, now: () => now }),
+      scheduler: new RequestScheduler({ baseDelayMs: 1, maxDelayMs: 5 }),
+    });
+    await sheets.fetchHeaders('sheet-1', 'Leads');
+    const second = sheets.fetchHeaders('sheet-1', 'Leads', 2);
+    setTimeout(() => (now = 60_000), 1);
+    await expect(second).resolves.toContain('email');
+  });
+});
+
+describe('GoogleSheetsService.logout', () => {
+  const token = { access_token: 'ya29.a', refresh_token: '1//r' };
+  let dir: string;
+  let revoked: Credentials[];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sheets-'));
+    process.env.GOOGLE_SHEETS_CREDENTIALS_DIR = dir;
+    revoked = [];
+    jest
+      .spyOn(OAuth2Client.prototype, 'revokeCredentials')
+      .mockImplementation(async function (this: OAuth2Client) {
+        revoked.push(this.credentials);
+        return {} as never;
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.GOOGLE_SHEETS_CREDENTIALS_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function freshService(): Promise<{ sheets: GoogleSheetsService; vault: SelectorVault }> {
+    const vault = new SelectorVault(new FileStorage(path.join(dir, 'vault.json')), 1000);
+    await vault.initVault('secret');
+    return { sheets: new GoogleSheetsService({ client: new FakeWorkbook().client(), vault }), vault };
+  }
+
+  it('revokes the stored token from a fresh service', async () => {
+    const { sheets, vault } = await freshService();
+    await vault.setEntry('google_oauth_token', JSON.stringify(token));
+    await sheets.logout();
+
+    expect(revoked).toEqual([token]);
+    expect(await vault.getEntry('google_oauth_token')).toBeUndefined();
+  });
+
+  it('revokes and deletes a legacy token.json', async () => {
+    fs.writeFileSync(path.join(dir, 'token.json'), JSON.stringify(token));
+    const { sheets } = await freshService();
+    await sheets.logout();
+
+    expect(revoked).toEqual([token]);
+    expect(fs.existsSync(path.join(dir, 'token.json'))).toBe(false);
+  });
+
+  it('revokes nothing when no token is stored', async () => {
+    const { sheets } = await freshService();
+    await sheets.logout();
+    expect(revoked).toEqual([]);
+  });
+});
@@ -3,7 +3,11 @@ import fsSync from 'fs';
 import path from 'path';
 import readline from 'readline';
 import { google, sheets_v4 } from 'googleapis';
-import type { OAuth2Client } from 'google-auth-library';
+import { Credentials, OAuth2Client } from 'google-auth-library';
+import { get as getConfig } from './configloader.js';
+import { FileStorage } from './filestorage.js';
+import SelectorVault from './selectorvault.js';
+import { getSharedScheduler, RequestScheduler } from './sheetsscheduler.js';
 
 /**
  * Convenience row/column typings.
@@ -12,6 +16,117 @@ export type Cell = string | number | boolean | null;
 export type Row = Cell[];
 export type Rows = Row[];
 
+/**
+ * A data row keyed by header, tagged with its absolute (1-based) sheet row.
+ */
+export interface SheetRecord {
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface SheetRecords {
+  headers: string[];
+  records: SheetRecord[];
+}
+
+/**
+ * The subset of `sheets_v4.Sheets` this service calls. Anything with this
+ * shape can be injected, e.g. the in-memory fake in fakesheets.ts.
+ */
+export interface SheetsClient {
+  spreadsheets: {
+    get(
+      params: sheets_v4.Params$Resource$Spreadsheets$Get
+    ): Promise<{ data: sheets_v4.Schema$Spreadsheet }>;
+    values: {
+      get(
+        params: sheets_v4.Params$Resource$Spreadsheets$Values$Get
+      ): Promise<{ data: sheets_v4.Schema$ValueRange }>;
+      update(
+        params: sheets_v4.Params$Resource$Spreadsheets$Values$Update
+      ): Promise<{ data: sheets_v4.Schema$UpdateValuesResponse }>;
+      append(
+        params: sheets_v4.Params$Resource$Spreadsheets$Values$Append
+      ): Promise<{ data: sheets_v4.Schema$AppendValuesResponse }>;
+      batchUpdate(
+        params: sheets_v4.Params$Resource$Spreadsheets$Values$Batchupdate
+      ): Promise<{ data: sheets_v4.Schema$BatchUpdateValuesResponse }>;
+    };
+  };
+}
+
+export interface GoogleSheetsServiceOptions {
+  /**
+   * Pre-built client. When set, no authentication is performed; used for
+   * offline tests against fakesheets.ts.
+   */
+  client?: SheetsClient;
+  /**
+   * Requests per minute for the shared scheduler. Defaults to
+   * `google_api.rate_limit_per_min` from the loaded config, then 90.
+   */
+  rateLimitPerMin?: number;
+  /** Use a dedicated scheduler instead of the process-wide one. */
+  scheduler?: RequestScheduler;
+  /**
+   * Vault holding the OAuth token. Defaults to `vault.json` next to
+   * `credentials.json`, unlocked with `OMNIFORM_MASTER_PASSWORD` or an
+   * interactive prompt.
+   */
+  vault?: SelectorVault;
+}
+
+/** Vault entry holding the serialised OAuth credentials. */
+const TOKEN_VAULT_KEY = 'google_oauth_token';
+
+export interface FetchRecordsOptions {
+  /** 1-based row holding the headers. Defaults to 1. */
+  headerRow?: number;
+  /** Keep rows whose every cell is empty. Defaults to false. */
+  includeBlank?: boolean;
+}
+
+/* ------------------------------------------------------------------ */
+/* A1 notation helpers                                                */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Converts a 0-based column index to its A1 letter (0 -> A, 26 -> AA).
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Quotes a worksheet name for use in A1 notation. Plain identifiers are
+ * left alone; anything with spaces, punctuation or that could be read as a
+ * cell reference (`A1`, `R1C1`) is wrapped in single quotes with embedded
+ * quotes doubled.
+ */
+export function quoteSheetName(name: string): string {
+  const plain =
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) &&
+    !/^[A-Za-z]{1,3}\d+$/.test(name) &&
+    !/^R\d*C\d*$/i.test(name);
+  return plain ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Builds an A1 range such as `'Sign ups'!A2:ZZ`. Without a worksheet the
+ * range targets the first sheet.
+ */
+export function a1Range(worksheet: string | undefined, from: string, to?: string): string {
+  const prefix = worksheet ? `${quoteSheetName(worksheet)}!` : '';
+  return to ? `${prefix}${from}:${to}` : `${prefix}${from}`;
+}
+
 /**
  * Thin wrapper around Google Sheets v4 API that supports either
  * service-account credentials (preferred for non-interactive/server use)
@@ -19,8 +134,16 @@ export type Rows = Row[];
  */
 export class GoogleSheetsService {
   private authClient?: OAuth2Client;
-  private sheets?: sheets_v4.Sheets;
+  private sheets?: SheetsClient;
   private authPromise?: Promise<void>;
+  private scheduler?: RequestScheduler;
+  private vault?: SelectorVault;
+  /* Serialises token writes triggered by refreshes */
+  private tokenWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly opts: GoogleSheetsServiceOptions = {}) {
+    this.sheets = opts.client;
+  }
 
   /* ------------------------------------------------------------------ */
   /* Public API                                                         */
@@ -50,6 +173,55 @@ export class GoogleSheetsService {
     return res.data;
   }
 
+  /**
+   * Fetch a worksheet as header-keyed records. Rows above `headerRow` are
+   * ignored; duplicate or blank headers keep only their first occurrence.
+   */
+  async fetchRecords(
+    spreadsheetId: string,
+    worksheet: string | undefined,
+    opts: FetchRecordsOptions = {}
+  ): Promise<SheetRecords> {
+    const headerRow = opts.headerRow ?? 1;
+    if (!Number.isInteger(headerRow) || headerRow < 1) {
+      throw new Error('headerRow must be a positive integer.');
+    }
+
+    /* The API sends no (or null) values for an empty range */
+    const values = (
+      await this.fetchRows(spreadsheetId, a1Range(worksheet, `A${headerRow}`, 'ZZZ'))
+    ).values ?? [];
+    const headers = (values[0] ?? []).map((h) => String(h ?? '').trim());
+
+    const records: SheetRecord[] = [];
+    for (let i = 1; i < values.length; i++) {
+      const cells = values[i] ?? [];
+      const blank = cells.every((c) => c === '' || c === null || c === undefined);
+      if (blank && !opts.includeBlank) continue;
+
+      const record: Record<string, string> = {};
+      headers.forEach((header, col) => {
+        if (header && !(header in record)) record[header] = String(cells[col] ?? '');
+      });
+      records.push({ rowNumber: headerRow + i, values: record });
+    }
+    return { headers, records };
+  }
+
+  /**
+   * Read just the header row of a worksheet.
+   */
+  async fetchHeaders(
+    spreadsheetId: string,
+    worksheet: string | undefined,
+    headerRow = 1
+  ): Promise<string[]> {
+    const values = (
+      await this.fetchRows(spreadsheetId, a1Range(worksheet, `${headerRow}`, `${headerRow}`))
+    ).values ?? [];
+    return (values[0] ?? []).map((h) => String(h ?? '').trim());
+  }
+
   /**
    * Update a range of rows with provided values.
    * `values` must be a 2-D array matching the dimensions of the range.
@@ -70,6 +242,30 @@ export class GoogleSheetsService {
     );
   }
 
+  /**
+   * Write several ranges in a single `values.batchUpdate` call.
+   */
+  async batchUpdateValues(
+    spreadsheetId: string,
+    data: { range: string; values: Rows }[]
+  ): Promise<void> {
+    if (data.length === 0) return;
+    await this.ensureAuth();
+    await this.retry(() =>
+      this.sheets!.spreadsheets.values.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          valueInputOption: 'RAW',
+          data: data.map(({ range, values }) => ({
+            range,
+            majorDimension: 'ROWS',
+            values,
+          })),
+        },
+      })
+    );
+  }
+
   /**
    * Append a single row at the end of the sheet.
    */
@@ -103,18 +299,15 @@ export class GoogleSheetsService {
     const scopes = ['https://www.googleapis.com/auth/spreadsheets'];
 
     /* Ensure only one auth flow runs concurrently */
-    this.authPromise = (async () => {
+    const attempt = (async () => {
       // Prefer Application Default / Service-Account credentials.
       if (!interactive && process.env.GOOGLE_APPLICATION_CREDENTIALS) {
         const auth = new google.auth.GoogleAuth({ scopes });
         this.authClient = (await auth.getClient()) as OAuth2Client;
       } else {
         // OAuth2 local flow
-        const baseDir =
-          process.env.GOOGLE_SHEETS_CREDENTIALS_DIR ||
-          path.join(process.env.HOME ?? process.cwd(), '.config', 'omniform');
+        const baseDir = this.credentialsDir();
         const credentialsPath = path.resolve(baseDir, 'credentials.json');
-        const tokenPath = path.resolve(baseDir, 'token.json');
 
         if (!fsSync.existsSync(credentialsPath)) {
           throw new Error(
@@ -132,9 +325,10 @@ export class GoogleSheetsService {
           redirect_uris[0]
         );
 
-        if (fsSync.existsSync(tokenPath)) {
-          const token = JSON.parse(await fs.readFile(tokenPath, 'utf-8'));
-          oAuth2Client.setCredentials(token);
+        const vault = await this.unlockVault(interactive);
+        const stored = await this.loadToken(vault);
+        if (stored) {
+          oAuth2Client.setCredentials(stored);
         } else {
           if (!interactive) {
             throw new Error(
@@ -149,16 +343,139 @@ export class GoogleSheetsService {
           const code = await this.prompt('Enter the authorization code: ');
           const { tokens } = await oAuth2Client.getToken(code.trim());
           oAuth2Client.setCredentials(tokens);
-          await fs.mkdir(baseDir, { recursive: true });
-          await fs.writeFile(tokenPath, JSON.stringify(tokens), 'utf-8');
+          await vault.setEntry(TOKEN_VAULT_KEY, JSON.stringify(tokens));
         }
+
+        // Persist refreshed access tokens (and rotated refresh tokens).
+        oAuth2Client.on('tokens', (tokens) => {
+          this.tokenWrite = this.tokenWrite
+            .then(() => this.saveToken(vault, tokens))
+            .catch((err) => console.error('Failed to store refreshed OAuth token:', err));
+        });
         this.authClient = oAuth2Client;
       }
 
       this.sheets = google.sheets({ version: 'v4', auth: this.authClient });
     })();
+    this.authPromise = attempt;
+
+    try {
+      await attempt;
+    } catch (err) {
+      /* Let the next call try again instead of replaying this failure */
+      if (this.authPromise === attempt) this.authPromise = undefined;
+      throw err;
+    }
+  }
+
+  /**
+   * Revoke the OAuth grant (best effort) and wipe the stored token. The
+   * next call will need to authenticate again. Works from a fresh process
+   * too: without a live client the stored token is revoked.
+   */
+  async logout(): Promise<void> {
+    await this.authPromise?.catch(() => undefined);
+    await this.tokenWrite;
+
+    /* Unlock before revoking so a locked vault stops logout with nothing done */
+    const vault = await this.unlockVault(Boolean(process.stdin.isTTY));
+
+    const client = this.authClient ?? (await this.storedTokenClient(vault));
+    if (client?.credentials?.access_token || client?.credentials?.refresh_token) {
+      try {
+        await client.revokeCredentials();
+      } catch (err) {
+        console.warn('Token revocation failed; removing local copy anyway:', err);
+      }
+    }
+
+    await fs.rm(path.resolve(this.credentialsDir(), 'token.json'), { force: true });
+    await vault.deleteEntry(TOKEN_VAULT_KEY);
+
+    this.authClient = undefined;
+    this.sheets = this.opts.client;
+    this.authPromise = undefined;
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* Token storage                                                      */
+  /* ------------------------------------------------------------------ */
+
+  private credentialsDir(): string {
+    return (
+      process.env.GOOGLE_SHEETS_CREDENTIALS_DIR ||
+      path.join(process.env.HOME ?? process.cwd(), '.config', 'omniform')
+    );
+  }
 
-    await this.authPromise;
+  private async unlockVault(interactive: boolean): Promise<SelectorVault> {
+    if (!this.vault) {
+      this.vault =
+        this.opts.vault ??
+        new SelectorVault(new FileStorage(path.resolve(this.credentialsDir(), 'vault.json')));
+    }
+    if (!this.vault.isUnlocked()) {
+      let password = process.env.OMNIFORM_MASTER_PASSWORD;
+      if (!password && interactive) {
+        password = (await this.prompt('Master password: ')).trim();
+      }
+      if (!password) {
+        throw new Error(
+          'Token vault is locked. Set OMNIFORM_MASTER_PASSWORD or run interactively.'
+        );
+      }
+      await this.vault.initVault(password);
+    }
+    return this.vault;
+  }
+
+  /**
+   * Read the token from the vault, migrating a legacy plaintext token.json
+   * into it (and deleting the plaintext copy) on first use.
+   */
+  private async loadToken(vault: SelectorVault): Promise<Credentials | null> {
+    const stored = await vault.getEntry(TOKEN_VAULT_KEY);
+    if (stored) return JSON.parse(stored) as Credentials;
+
+    const legacyPath = path.resolve(this.credentialsDir(), 'token.json');
+    if (!fsSync.existsSync(legacyPath)) return null;
+
+    const legacy = await fs.readFile(legacyPath, 'utf-8');
+    const token = JSON.parse(legacy) as Credentials;
+    await vault.setEntry(TOKEN_VAULT_KEY, JSON.stringify(token));
+    await fs.rm(legacyPath, { force: true });
+    return token;
+  }
+
+  /**
+   * A client holding the stored token (vault first, then a legacy
+   * token.json) so logout can revoke it. Nothing is migrated.
+   */
+  private async storedTokenClient(vault: SelectorVault): Promise<OAuth2Client | undefined> {
+    const legacyPath = path.resolve(this.credentialsDir(), 'token.json');
+    const stored =
+      (await vault.getEntry(TOKEN_VAULT_KEY)) ??
+      (fsSync.existsSync(legacyPath) ? await fs.readFile(legacyPath, 'utf-8') : undefined);
+    if (!stored) return undefined;
+
+    const client = new OAuth2Client();
+    client.setCredentials(JSON.parse(stored) as Credentials);
+    return client;
+  }
+
+  /**
+   * Merge refreshed credentials into the stored token; Google omits the
+   * refresh token from refresh responses unless it was rotated.
+   */
+  private async saveToken(vault: SelectorVault, tokens: Credentials): Promise<void> {
+    const stored = await vault.getEntry(TOKEN_VAULT_KEY);
+    const previous: Credentials = stored ? JSON.parse(stored) : {};
+    const merged: Credentials = {
+      ...previous,
+      ...tokens,
+      refresh_token: tokens.refresh_token ?? previous.refresh_token,
+    };
+    await vault.setEntry(TOKEN_VAULT_KEY, JSON.stringify(merged));
   }
 
   /* ------------------------------------------------------------------ */
@@ -166,27 +483,31 @@ export class GoogleSheetsService {
   /* ------------------------------------------------------------------ */
 
   /**
-   * Retry helper with exponential back-off.
+   * Run a Sheets call through the rate-limit scheduler. Only transient
+   * errors are retried; see sheetsscheduler.ts.
    */
-  async retry<T, E extends Error = Error>(
-    fn: () => Promise<T>,
-    attempts = 3
-  ): Promise<T> {
-    let lastErr: E | null = null;
-    for (let i = 0; i < attempts; i++) {
-      try {
-        return await fn();
-      } catch (err) {
-        lastErr = (err instanceof Error ? err : new Error(String(err))) as E;
-        const wait = 2 ** i * 250 + Math.random() * 100;
-        await new Promise((res) => setTimeout(res, wait));
-      }
+  async retry<T>(fn: () => Promise<T>, attempts?: number): Promise<T> {
+    return this.getScheduler().schedule(fn, attempts);
+  }
+
+  /**
+   * Resolved lazily so the configured quota is picked up even though the
+   * singleton below is created before any config file is loaded.
+   */
+  private getScheduler(): RequestScheduler {
+    if (!this.scheduler) {
+      const configured = Number(getConfig('google_api.rate_limit_per_min'));
+      this.scheduler =
+        this.opts.scheduler ??
+        getSharedScheduler(
+          this.opts.rateLimitPerMin ?? (configured > 0 ? configured : undefined)
+        );
     }
-    /* If we get here, all attempts failed */
-    throw lastErr!;
+    return this.scheduler;
   }
 
   private async ensureAuth() {
+    if (this.opts.client) return;
     if (!this.authClient || !this.sheets) {
       await this.authenticate(false);
     }
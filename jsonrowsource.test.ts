@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Row } from './formfillerrunner.js';
+import { flattenRecord, JsonRowSource } from './jsonrowsource.js';
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'omniform-json-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function file(name: string, content: string): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, content, 'utf8');
+  return filePath;
+}
+
+async function collect(rows: AsyncIterable<Row>): Promise<Row[]> {
+  const out: Row[] = [];
+  for await (const row of rows) out.push(row);
+  return out;
+}
+
+describe('flattenRecord', () => {
+  it('flattens nested objects and arrays into dotted keys', () => {
+    expect(
+      flattenRecord({ name: 'Ada', address: { city: 'Oslo', zip: 150 }, phones: ['1', '2'], note: null, tags: [] }),
+    ).toEqual({
+      name: 'Ada',
+      'address.city': 'Oslo',
+      'address.zip': '150',
+      'phones.0': '1',
+      'phones.1': '2',
+      note: '',
+      tags: '',
+    });
+  });
+});
+
+describe('JsonRowSource', () => {
+  it('numbers array items from 2, like sheet and CSV data rows', async () => {
+    const filePath = file('people.json', JSON.stringify([{ name: 'Ada', url: 'https://a.io' }, { name: 'Bo' }]));
+    expect(await collect(new JsonRowSource(filePath).rows())).toEqual([
+      { id: 2, data: { name: 'Ada', url: 'https://a.io' }, url: 'https://a.io' },
+      { id: 3, data: { name: 'Bo' }, url: undefined },
+    ]);
+  });
+
+  it('streams NDJSON, skipping blank lines without using up ids', async () => {
+    const filePath = file('people.ndjson', '\uFEFF{"name":"Ada"}\n\n{"name":"Bo"}\r\n');
+    const rows = await collect(new JsonRowSource(filePath).rows());
+    expect(rows.map((r) => [r.id, r.data.name])).toEqual([
+      [2, 'Ada'],
+      [3, 'Bo'],
+    ]);
+  });
+
+  it('honours an explicit format over the extension', async () => {
+    const filePath = file('lines.txt', '{"a":1}\n{"a":2}\n');
+    const rows = await collect(new JsonRowSource(filePath, { format: 'ndjson' }).rows());
+    expect(rows).toHaveLength(2);
+  });
+
+  it('reports the item or line that is not an object', async () => {
+    const array = file('bad.json', '[{"a":1}, 5]');
+    await expect(collect(new JsonRowSource(array).rows())).rejects.toThrow(`Item 1 of ${array} is not a JSON object.`);
+    const lines = file('bad.jsonl', '{"a":1}\n{oops}\n');
+    await expect(collect(new JsonRowSource(lines).rows())).rejects.toThrow(`${lines}:2 is not valid JSON`);
+    const object = file('object.json', '{"a":1}');
+    await expect(collect(new JsonRowSource(object).rows())).rejects.toThrow('must contain a top-level array');
+  });
+
+  it('throws for a missing file', () => {
+    expect(() => new JsonRowSource(path.join(dir, 'nope.json')).rows()).toThrow('JSON file not found');
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { Row } from './formfillerrunner.js';
+import type { RowSource } from './rowsource.js';
+
+export type JsonFormat = 'auto' | 'json' | 'ndjson';
+
+export interface JsonOptions {
+  /**
+   * `json` expects a top-level array, `ndjson` one object per line.
+   * `auto` picks `ndjson` for .ndjson/.jsonl files and `json` otherwise.
+   */
+  format?: JsonFormat;
+}
+
+/**
+ * Flattens nested objects into dotted column names so they can be mapped
+ * like sheet headers: `{ address: { city: 'Oslo' } }` -> `address.city`.
+ * Array items are addressed by index (`phones.0`). Nulls become empty strings.
+ */
+export function flattenRecord(
+  value: unknown,
+  prefix = '',
+  out: Record<string, string> = {},
+): Record<string, string> {
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value)
+      ? value.map((v, i) => [String(i), v] as const)
+      : Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 && prefix) out[prefix] = '';
+    for (const [key, child] of entries) {
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (prefix) {
+    out[prefix] = value === null || value === undefined ? '' : String(value);
+  }
+  return out;
+}
+
+/**
+ * Id of the first record. JSON has no header row, but records are numbered
+ * as if it had one so a `--rows` range picks the same records from a JSON
+ * export as from the sheet or CSV it came from, whose data starts at row 2.
+ */
+const FIRST_ROW_ID = 2;
+
+function toJsonRow(id: number, record: unknown, where: string): Row {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new Error(`${where} is not a JSON object.`);
+  }
+  const data = flattenRecord(record);
+  return { id, data, url: data.url || undefined };
+}
+
+/**
+ * Row source for `[data_source] type = json`. NDJSON files are read line by
+ * line so large exports never have to fit in memory; plain JSON arrays are
+ * parsed in one go.
+ */
+export class JsonRowSource implements RowSource {
+  private readonly format: Exclude<JsonFormat, 'auto'>;
+
+  constructor(private readonly filePath: string, opts: JsonOptions = {}) {
+    const format = opts.format ?? 'auto';
+    if (format === 'auto') {
+      const ext = path.extname(filePath).toLowerCase();
+      this.format = ext === '.ndjson' || ext === '.jsonl' ? 'ndjson' : 'json';
+    } else {
+      this.format = format;
+    }
+  }
+
+  rows(): AsyncIterable<Row> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`JSON file not found: ${this.filePath}`);
+    }
+    return this.format === 'ndjson' ? this.ndjsonRows() : this.arrayRows();
+  }
+
+  private async *arrayRows(): AsyncIterable<Row> {
+    const raw = await fs.promises.readFile(this.filePath, 'utf8');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.replace(/^\uFEFF/, ''));
+    } catch (err) {
+      throw new Error(
+        `JSON file ${this.filePath} is not valid JSON: ${(err as Error).message}`,
+      );
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error(`JSON file ${this.filePath} must contain a top-level array.`);
+    }
+
+    for (let i = 0; i < parsed.length; i++) {
+      yield toJsonRow(FIRST_ROW_ID + i, parsed[i], `Item ${i} of ${this.filePath}`);
+    }
+  }
+
+  private async *ndjsonRows(): AsyncIterable<Row> {
+    const stream = fs.createReadStream(this.filePath, { encoding: 'utf8' });
+    const lines = readline.createInterface({
+      input: stream,
+      crlfDelay: Infinity,
+    });
+
+    let lineNo = 0;
+    let rowId = FIRST_ROW_ID;
+    try {
+      for await (const rawLine of lines) {
+        lineNo++;
+        const line = (lineNo === 1 ? rawLine.replace(/^\uFEFF/, '') : rawLine).trim();
+        if (!line) continue;
+
+        let record: unknown;
+        try {
+          record = JSON.parse(line);
+        } catch (err) {
+          throw new Error(
+            `${this.filePath}:${lineNo} is not valid JSON: ${(err as Error).message}`,
+          );
+        }
+        yield toJsonRow(rowId++, record, `${this.filePath}:${lineNo}`);
+      }
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment jsdom
+ */
+import { fieldKit } from './fieldfingerprint.js';
+import { checkScript, checkTargets, describeProblems, mappingRequests, targetRequest } from './mappingcheck.js';
+
+/* jsdom has no CSS.escape; this covers the identifiers used below */
+if (!globalThis.CSS) Object.assign(globalThis, { CSS: { escape: (v: string) => v.replace(/[^\w-]/g, '\\$&') } });
+
+/* jsdom lays nothing out; give every element a box unless it is display: none */
+Element.prototype.getClientRects = function (this: Element) {
+  return (this as HTMLElement).style?.display === 'none' ? [] : [{}];
+} as unknown as Element['getClientRects'];
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <form>
+      <input id="email" type="email" name="email">
+      <input class="phone" name="phone1"><input class="phone" name="phone2">
+      <input type="radio" name="plan" value="a"><input type="radio" name="plan" value="b">
+      <select id="country"><option>NO</option></select>
+      <input id="locked" disabled>
+      <input id="ro" readonly>
+      <input id="secret" style="display: none">
+      <div id="host"></div>
+    </form>`;
+  const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+  shadow.innerHTML = '<input id="inner">';
+});
+
+function status(selector: string, type?: string) {
+  return checkTargets([targetRequest(selector, { type })])[0];
+}
+
+describe('checkTargets', () => {
+  it('accepts a single fillable target', () => {
+    expect(status('#email', 'text')).toEqual({
+      selector: '#email',
+      status: 'ok',
+      matches: 1,
+      found: 'input[type=email]',
+    });
+  });
+
+  it('reports missing selectors and where the path broke', () => {
+    expect(status('#nope')).toMatchObject({ status: 'missing', matches: 0 });
+    expect(status('#gone >>> input')).toMatchObject({ status: 'missing', detail: '"#gone" not found' });
+    expect(status('#email >>> input')).toMatchObject({
+      status: 'missing',
+      detail: '"#email" is not a frame or open shadow host',
+    });
+    expect(status('input[')).toMatchObject({ status: 'missing', detail: 'invalid selector "input["' });
+  });
+
+  it('reports selectors matching several fields, except one radio group', () => {
+    expect(status('.phone')).toMatchObject({ status: 'ambiguous', matches: 2, detail: '2 elements match' });
+    expect(status('[name=plan]', 'radio')).toMatchObject({ status: 'ok', matches: 2 });
+  });
+
+  it('checks the kind, state and visibility of the target', () => {
+    expect(status('#country', 'text')).toMatchObject({
+      status: 'type-mismatch',
+      detail: 'expected text, found select',
+    });
+    expect(status('#locked')).toMatchObject({ status: 'disabled' });
+    expect(status('#ro')).toMatchObject({ status: 'disabled', detail: 'read-only' });
+    expect(status('#secret')).toMatchObject({ status: 'hidden' });
+  });
+
+  it('descends into open shadow roots', () => {
+    expect(status('#host >>> #inner')).toMatchObject({ status: 'ok', found: 'input' });
+  });
+});
+
+describe('healed targets', () => {
+  it('finds a broken selector through the fingerprint and reports it', () => {
+    const fingerprint = fieldKit().fingerprint(document.getElementById('email')!);
+    document.getElementById('email')!.id = 'contact';
+    const [check] = checkTargets([targetRequest('#email', { fingerprint })]);
+    expect(check).toEqual({
+      selector: '#email',
+      status: 'healed',
+      matches: 1,
+      found: 'input[type=email]',
+      detail: 'selector no longer matches, found by name',
+    });
+    expect(describeProblems([check])).toEqual(['#email: healed (selector no longer matches, found by name)']);
+  });
+
+  it('still reports problems of a healed target', () => {
+    const fingerprint = fieldKit().fingerprint(document.getElementById('locked')!);
+    document.getElementById('locked')!.id = 'renamed';
+    expect(checkTargets([targetRequest('#locked', { fingerprint })])[0].status).toBe('disabled');
+  });
+
+  it('runs serialised, as Playwright evaluates it', () => {
+    const fingerprint = fieldKit().fingerprint(document.getElementById('email')!);
+    document.getElementById('email')!.id = 'contact';
+    const checks = (0, eval)(checkScript([targetRequest('#email', { fingerprint }), targetRequest('#nope')]));
+    expect(checks.map((c: { status: string }) => c.status)).toEqual(['healed', 'missing']);
+  });
+});
+
+describe('mappingRequests', () => {
+  it('builds requests from column names and rules', () => {
+    expect(
+      mappingRequests({
+        '#email': 'email',
+        '#inner': { column: 'x', type: 'text', shadowPath: ['#host'] },
+      }),
+    ).toEqual([
+      { selector: '#email', path: ['#email'], type: undefined },
+      { selector: '#inner', path: ['#host', '#inner'], type: 'text' },
+    ]);
+  });
+});
+
+describe('describeProblems', () => {
+  it('lists one line per problem', () => {
+    const checks = checkTargets(mappingRequests({ '#email': 'email', '#nope': 'x', '#country': { type: 'text' } }));
+    expect(describeProblems(checks)).toEqual([
+      '#nope: missing',
+      '#country: type-mismatch (expected text, found select)',
+    ]);
+  });
+});
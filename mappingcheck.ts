@@ -0,0 +1,196 @@
+import { FieldFingerprint, FieldKit, fieldKit } from './fieldfingerprint.js';
+import type { Mapping } from './mappingengine.js';
+
+/**
+ * Checks a mapping against a live page before a run: every selector is
+ * resolved (through `>>>` deep selectors, frames and shadow hosts) and
+ * its target inspected. `checkTargets` touches only the DOM and its field
+ * kit, so the content script calls it directly and the CLI evaluates
+ * `checkScript` with Playwright.
+ */
+
+export type TargetStatus =
+  | 'ok'
+  | 'healed'
+  | 'missing'
+  | 'ambiguous'
+  | 'hidden'
+  | 'disabled'
+  | 'type-mismatch';
+
+export interface TargetRequest {
+  /** Mapping key, echoed in the result */
+  selector: string;
+  /** Selectors to descend through (iframes, shadow hosts), then the field */
+  path: string[];
+  /** Expected field kind: text, select, checkbox, radio or button */
+  type?: string;
+  /** Finds the field when the selector no longer matches */
+  fingerprint?: FieldFingerprint;
+}
+
+export interface TargetCheck {
+  selector: string;
+  status: TargetStatus;
+  /** Elements the selector matched */
+  matches: number;
+  /** What was found, e.g. `input[type=email]` */
+  found?: string;
+  detail?: string;
+}
+
+/** The fields of a mapping rule or runner entry that locate its target. */
+export interface TargetLocation {
+  type?: string;
+  framePath?: string[];
+  shadowPath?: string[];
+  fingerprint?: FieldFingerprint;
+}
+
+/** Builds the request for one entry; `>>>` inside the selector is honoured. */
+export function targetRequest(selector: string, location: TargetLocation = {}): TargetRequest {
+  return {
+    selector,
+    path: [
+      ...(location.framePath ?? []),
+      ...(location.shadowPath ?? []),
+      ...selector.split(/\s*>>>\s*/).filter(Boolean),
+    ],
+    type: location.type,
+    ...(location.fingerprint ? { fingerprint: location.fingerprint } : {}),
+  };
+}
+
+export function mappingRequests(mapping: Mapping): TargetRequest[] {
+  return Object.entries(mapping).map(([selector, target]) =>
+    targetRequest(selector, typeof target === 'string' ? {} : target),
+  );
+}
+
+/**
+ * Runs in the page. Resolves each request from `document` and reports the
+ * first problem found: missing, ambiguous, then type, disabled and hidden.
+ * A target found only through its fingerprint is checked like any other
+ * and reported as `healed`, since its selector needs updating.
+ */
+export function checkTargets(requests: TargetRequest[], kit: FieldKit = fieldKit()): TargetCheck[] {
+  const TEXT_TYPES = [
+    'text', 'email', 'tel', 'url', 'search', 'password', 'number',
+    'date', 'datetime-local', 'month', 'week', 'time', 'color', 'range', 'hidden',
+  ];
+
+  function describe(el: Element): string {
+    const type = el.getAttribute('type');
+    return type ? `${el.tagName.toLowerCase()}[type=${type}]` : el.tagName.toLowerCase();
+  }
+
+  function kindOf(el: Element): string | null {
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'select') return 'select';
+    if (tag === 'textarea') return 'text';
+    if (tag === 'button' || el.getAttribute('role') === 'button') return 'button';
+    if (tag === 'input') {
+      const type = ((el as HTMLInputElement).type || 'text').toLowerCase();
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (['submit', 'button', 'reset', 'image'].includes(type)) return 'button';
+      if (TEXT_TYPES.includes(type)) return 'text';
+      return null;
+    }
+    return (el as HTMLElement).isContentEditable ? 'text' : null;
+  }
+
+  function isHidden(el: Element): boolean {
+    if ((el as HTMLInputElement).type === 'hidden') return true;
+    if (el.getClientRects().length === 0) return true;
+    const style = (el.ownerDocument.defaultView ?? window).getComputedStyle(el);
+    return style.visibility === 'hidden' || style.display === 'none';
+  }
+
+  function resolve(path: string[]): { elements: Element[]; blocked?: string } {
+    let roots: (Document | ShadowRoot)[] = [document];
+    for (let i = 0; i < path.length; i++) {
+      const found: Element[] = [];
+      for (const root of roots) {
+        try {
+          found.push(...Array.from(root.querySelectorAll(path[i])));
+        } catch {
+          return { elements: [], blocked: `invalid selector "${path[i]}"` };
+        }
+      }
+      if (i === path.length - 1) return { elements: found };
+      const next: (Document | ShadowRoot)[] = [];
+      for (const host of found) {
+        if (host instanceof HTMLIFrameElement) {
+          let doc: Document | null = null;
+          try {
+            doc = host.contentDocument;
+          } catch {
+            /* cross-origin */
+          }
+          if (!doc) return { elements: [], blocked: `frame "${path[i]}" is cross-origin or not loaded` };
+          next.push(doc);
+        } else if (host.shadowRoot) {
+          next.push(host.shadowRoot);
+        }
+      }
+      if (next.length === 0) {
+        return {
+          elements: [],
+          blocked: found.length ? `"${path[i]}" is not a frame or open shadow host` : `"${path[i]}" not found`,
+        };
+      }
+      roots = next;
+    }
+    return { elements: [] };
+  }
+
+  return requests.map(({ selector, path, type, fingerprint }): TargetCheck => {
+    const resolved = resolve(path);
+    let elements = resolved.elements;
+    let healedBy: string | undefined;
+    if (elements.length === 0 && fingerprint) {
+      const found = kit.locate({ path: path.slice(0, -1), selector: path[path.length - 1], fingerprint });
+      if (found) {
+        elements = found.elements;
+        healedBy = found.strategy;
+      }
+    }
+    const result = (status: TargetStatus, detail?: string): TargetCheck => ({
+      selector,
+      status,
+      matches: elements.length,
+      ...(elements[0] ? { found: describe(elements[0]) } : {}),
+      ...(detail ? { detail } : {}),
+    });
+
+    if (elements.length === 0) return result('missing', resolved.blocked);
+    // Several radios of one group are a single field
+    const oneGroup =
+      elements.every((el) => (el as HTMLInputElement).type === 'radio') &&
+      new Set(elements.map((el) => (el as HTMLInputElement).name)).size === 1;
+    if (elements.length > 1 && !oneGroup) return result('ambiguous', `${elements.length} elements match`);
+
+    const el = elements[0];
+    const kind = kindOf(el);
+    const expected = type ?? null;
+    if (!kind || (expected && expected !== kind)) {
+      return result('type-mismatch', `expected ${expected ?? 'a fillable field'}, found ${describe(el)}`);
+    }
+    if (el.matches(':disabled')) return result('disabled');
+    if ((el as HTMLInputElement).readOnly && kind === 'text') return result('disabled', 'read-only');
+    if (isHidden(el)) return result('hidden');
+    return healedBy ? result('healed', `selector no longer matches, found by ${healedBy}`) : result('ok');
+  });
+}
+
+/** Expression for Playwright's `evaluate` that runs `checkTargets` in the page. */
+export function checkScript(requests: TargetRequest[]): string {
+  return `(${checkTargets.toString()})(${JSON.stringify(requests)}, (${fieldKit.toString()})())`;
+}
+
+/** One line per problem, e.g. `#email: missing`; empty when all targets are fine. */
+export function describeProblems(checks: TargetCheck[]): string[] {
+  return checks
+    .filter((c) => c.status !== 'ok')
+    .map((c) => `${c.selector}: ${c.status}${c.detail ? ` (${c.detail})` : ''}`);
+}
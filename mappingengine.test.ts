@@ -0,0 +1,242 @@
+import {
+  applyMapping,
+  autoMap,
+  diffMappings,
+  diffMappingVersions,
+  FieldInfo,
+  getMappingVersion,
+  listMappingVersions,
+  loadMapping,
+  loadVocabulary,
+  Mapping,
+  resolveFieldValue,
+  restoreMappingVersion,
+  saveMapping,
+  saveTeamVocabulary,
+  setMappingVault,
+  suggestMapping,
+  VaultLockedError,
+} from './mappingengine.js';
+import SelectorVault from './selectorvault.js';
+
+describe('resolveFieldValue', () => {
+  const row = { first: 'Ada', last: 'Lovelace', note: '  ', type: 'business', vat: 'NO123' };
+
+  it('reads a column, or leaves the field alone when it is absent', () => {
+    expect(resolveFieldValue('first', row)).toBe('Ada');
+    expect(resolveFieldValue({ column: 'missing' }, row)).toBeUndefined();
+  });
+
+  it('fills only rows matching `when`', () => {
+    const rule = { column: 'vat', when: 'type = business' };
+    expect(resolveFieldValue(rule, row)).toBe('NO123');
+    expect(resolveFieldValue(rule, { ...row, type: 'private' })).toBeUndefined();
+    expect(resolveFieldValue({ column: 'first', when: '2-3' }, row, { rowNumber: 4 })).toBeUndefined();
+    expect(resolveFieldValue({ column: 'first', when: '2-3' }, row, { rowNumber: 3 })).toBe('Ada');
+  });
+
+  it('skips blank values under skipEmpty instead of clearing the field', () => {
+    expect(resolveFieldValue({ column: 'note' }, row)).toBe('  ');
+    expect(resolveFieldValue({ column: 'note', skipEmpty: true }, row)).toBeUndefined();
+    expect(resolveFieldValue({ column: 'note', transform: 'trim', skipEmpty: true }, row)).toBeUndefined();
+    expect(resolveFieldValue({ template: '{{first}} {{last}}', skipEmpty: true }, row)).toBe('Ada Lovelace');
+  });
+
+  it('drops skipped fields from applyMapping', () => {
+    const mapping: Mapping = {
+      '#first': 'first',
+      '#vat': { column: 'vat', when: 'type = private' },
+      '#note': { column: 'note', skipEmpty: true },
+    };
+    expect(applyMapping(mapping, row)).toEqual({ '#first': 'Ada' });
+  });
+});
+
+describe('suggestMapping', () => {
+  it('assigns headers for the best total, not field by field', () => {
+    /* Field by field, "Work email" would take "email" and leave "Email" unmatched */
+    const fields: FieldInfo[] = [
+      { selector: '#work', label: 'Work email' },
+      { selector: '#email', label: 'Email' },
+    ];
+    const { mapping, suggestions } = suggestMapping(fields, ['email', 'work phone']);
+    expect(mapping).toEqual({ '#work': 'work phone', '#email': 'email' });
+    expect(suggestions[1]).toEqual({ selector: '#email', header: 'email', confidence: 1, alternatives: [] });
+    expect(suggestions[0].confidence).toBeLessThan(0.5);
+    expect(suggestions[0].alternatives.map((a) => a.header)).toEqual(['email']);
+  });
+
+  it('gives a header to one field only and offers it to the others', () => {
+    const { suggestions } = suggestMapping(
+      [
+        { selector: '#a', label: 'Email' },
+        { selector: '#b', label: 'Email' },
+      ],
+      ['email'],
+    );
+    expect(suggestions.filter((s) => s.header === 'email')).toHaveLength(1);
+    const other = suggestions.find((s) => s.header === null)!;
+    expect(other).toMatchObject({ confidence: 0, alternatives: [{ header: 'email', score: 1 }] });
+  });
+
+  it('leaves fields unmapped when nothing scores above the threshold', () => {
+    const { mapping, suggestions } = suggestMapping([{ selector: '#c', label: 'Favourite colour' }], ['postcode']);
+    expect(mapping).toEqual({});
+    expect(suggestions[0]).toEqual({ selector: '#c', header: null, confidence: 0, alternatives: [] });
+  });
+
+  it('uses autocomplete tokens and keeps fingerprints', () => {
+    const fingerprint = { tag: 'input', css: '#zip', xpath: '/html[1]/body[1]/input[1]' };
+    expect(
+      autoMap([{ selector: '#zip', autocomplete: 'shipping postal-code', fingerprint }], ['name', 'postcode']),
+    ).toEqual({ '#zip': { column: 'postcode', fingerprint } });
+  });
+});
+
+describe('synonyms', () => {
+  it('relates labels and headers across languages', () => {
+    const { mapping, suggestions } = suggestMapping(
+      [
+        { selector: '#f', label: 'Vorname' },
+        { selector: '#l', label: 'Surname' },
+        { selector: '#t', label: '電話番号' },
+      ],
+      ['first_name', 'Nachname', 'phone'],
+    );
+    expect(mapping).toEqual({ '#f': 'first_name', '#l': 'Nachname', '#t': 'phone' });
+    expect(suggestions.map((s) => s.confidence)).toEqual([0.9, 0.9, 0.9]);
+  });
+
+  it('prefers the header that shares a word with the section', () => {
+    const { mapping } = suggestMapping(
+      [{ selector: '#s', label: 'Street', legend: 'Billing address' }],
+      ['shipping_street', 'billing_street'],
+    );
+    expect(mapping).toEqual({ '#s': 'billing_street' });
+  });
+
+  it('merges the team vocabulary over the built-in packs', async () => {
+    const fields = [
+      { selector: '#client', label: 'Client no.' },
+      { selector: '#inbox', label: 'Inbox' },
+    ];
+    const headers = ['Kundennummer', 'email'];
+    expect(suggestMapping(fields, headers).mapping).toEqual({});
+
+    await saveTeamVocabulary({
+      locale: 'x-acme',
+      concepts: { customer_id: ['client no', 'Kundennummer'], email: ['inbox'] },
+    });
+    const vocabulary = await loadVocabulary();
+    expect(vocabulary.locales()).toContain('x-acme');
+    expect(suggestMapping(fields, headers, { vocabulary }).mapping).toEqual({
+      '#client': 'Kundennummer',
+      '#inbox': 'email',
+    });
+  });
+
+  it('rejects a malformed team pack', async () => {
+    await expect(saveTeamVocabulary({ locale: 'x-acme', concepts: { id: 'client' } } as never)).rejects.toThrow(
+      'concept "id" must list strings',
+    );
+  });
+});
+
+describe('mapping history', () => {
+  it('records a version per changed save and skips unchanged ones', async () => {
+    await saveMapping('history-a', { '#a': 'a' }, { author: 'ada', comment: 'first' });
+    await saveMapping('history-a', { '#a': 'a' });
+    await saveMapping('history-a', { '#a': { column: 'a', transform: 'trim' }, '#b': 'b' });
+
+    const versions = await listMappingVersions('history-a');
+    expect(versions.map((v) => [v.version, v.author, v.comment])).toEqual([
+      [2, 'unknown', undefined],
+      [1, 'ada', 'first'],
+    ]);
+    expect(Date.parse(versions[0].savedAt)).not.toBeNaN();
+  });
+
+  it('keeps the 25 newest versions', async () => {
+    for (let i = 1; i <= 27; i++) await saveMapping('history-b', { '#a': `column${i}` });
+    const versions = await listMappingVersions('history-b');
+    expect(versions).toHaveLength(25);
+    expect(versions[0].version).toBe(27);
+    expect(versions[24].version).toBe(3);
+    expect(await getMappingVersion('history-b', 2)).toBeNull();
+  });
+
+  it('diffs two mappings by selector and rule field', () => {
+    expect(
+      diffMappings(
+        { '#a': 'a', '#b': 'b', '#c': { column: 'c' } },
+        { '#a': { column: 'a', transform: 'trim' }, '#c': 'c', '#d': 'd' },
+      ),
+    ).toEqual({
+      added: [{ selector: '#d', target: 'd' }],
+      removed: [{ selector: '#b', target: 'b' }],
+      changed: [{ selector: '#a', before: 'a', after: { column: 'a', transform: 'trim' }, fields: ['transform'] }],
+    });
+  });
+
+  it('diffs saved versions', async () => {
+    await saveMapping('history-c', { '#a': 'a' });
+    await saveMapping('history-c', { '#a': 'a', '#b': 'b' });
+    expect(await diffMappingVersions('history-c', 1, 2)).toEqual({
+      added: [{ selector: '#b', target: 'b' }],
+      removed: [],
+      changed: [],
+    });
+    await expect(diffMappingVersions('history-c', 1, 9)).rejects.toThrow('Mapping "history-c" has no version 9.');
+  });
+
+  it('restores an old version as a new one', async () => {
+    await saveMapping('history-d', { '#a': 'a' });
+    await saveMapping('history-d', { '#a': 'b' });
+    await expect(restoreMappingVersion('history-d', 1, { author: 'bo' })).resolves.toEqual({ '#a': 'a' });
+
+    expect(await loadMapping('history-d')).toEqual({ '#a': 'a' });
+    const [latest] = await listMappingVersions('history-d');
+    expect(latest).toMatchObject({ version: 3, author: 'bo', comment: 'Restored version 1' });
+    await expect(restoreMappingVersion('history-d', 7)).rejects.toThrow('has no version 7');
+  });
+});
+
+/* Runs last: once a vault is set, every mapping in this module goes through it */
+describe('setMappingVault', () => {
+  async function unlockedVault(): Promise<SelectorVault> {
+    const storage = new Map<string, string>();
+    const vault = new SelectorVault(
+      {
+        getItem: (k: string) => storage.get(k) ?? null,
+        setItem: (k: string, v: string) => void storage.set(k, v),
+      } as Storage,
+      1000,
+    );
+    await vault.initVault('secret');
+    return vault;
+  }
+
+  it('moves plaintext mappings into the vault and removes them', async () => {
+    await saveMapping('vaulted', { '#a': 'a' });
+    const vault = await unlockedVault();
+
+    const moved = await setMappingVault(vault);
+    expect(moved).toEqual(expect.arrayContaining(['mapping:vaulted', 'mapping-history:vaulted']));
+    expect(await vault.getEntry('mapping:vaulted')).toBe('{"#a":"a"}');
+    expect(await loadMapping('vaulted')).toEqual({ '#a': 'a' });
+
+    /* Nothing is left in plain storage for a second vault to pick up */
+    expect(await setMappingVault(await unlockedVault())).toEqual([]);
+  });
+
+  it('refuses a locked vault and throws VaultLockedError once locked', async () => {
+    const vault = await unlockedVault();
+    await setMappingVault(vault);
+    await saveMapping('secret', { '#a': 'a' });
+
+    vault.lock();
+    await expect(setMappingVault(vault)).rejects.toBeInstanceOf(VaultLockedError);
+    await expect(loadMapping('secret')).rejects.toBeInstanceOf(VaultLockedError);
+    await expect(saveMapping('secret', { '#a': 'b' })).rejects.toThrow('The selector vault is locked');
+  });
+});
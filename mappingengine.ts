@@ -1,15 +1,128 @@
+import type { FormTarget } from './domscanner.js';
+import { describeInvalidFingerprint, FieldFingerprint } from './fieldfingerprint.js';
+import { parseRowSelection, RowSelection } from './rowselection.js';
+import type SelectorVault from './selectorvault.js';
+import { describeUrlConflict, parseUrlPattern, resolveUrl, UrlMatch } from './urlpattern.js';
+import { renderTemplate, TemplateContext, validateTemplate } from './valuetemplates.js';
+import { applyTransforms, validateTransforms } from './valuetransforms.js';
+import {
+	BUILTIN_PACKS,
+	defaultVocabulary,
+	tokenizeLabel,
+	validatePack,
+	Vocabulary,
+	VocabularyPack,
+} from './vocabulary.js';
+
 // --- Type Definitions for context ---
 type Selector = string;
 type ColumnName = string;
-type Mapping = Record<Selector, ColumnName>;
 type RowData = Record<ColumnName, string>;
 type SelectorValueMap = Record<Selector, string>;
 
+/**
+ * A mapping target with per-field options. A bare column name is shorthand
+ * for `{ column }`. Set either `column` or `template`.
+ */
+export interface MappingRule {
+	column?: ColumnName;
+	/** Composed value, e.g. `{{first_name}} {{last_name}}` (see valuetemplates.ts) */
+	template?: string;
+	/** Value pipeline, e.g. `trim | phone("GB")` (see valuetransforms.ts) */
+	transform?: string;
+	/** Only fill when the row matches, e.g. `customer_type = business` (rowselection.ts syntax) */
+	when?: string;
+	/** Leave the field untouched when the value is blank instead of clearing it */
+	skipEmpty?: boolean;
+	/** Select / radio / checkbox lookup table: sheet value -> option value (see optionmatcher.ts) */
+	options?: Record<string, string>;
+	/** Fall back to accent-, case- and typo-tolerant option matching. Defaults to true. */
+	fuzzy?: boolean;
+	/** text (default), select, checkbox, radio or button */
+	type?: string;
+	/** Expected input, e.g. `email`, `tel` or `date`; informational for the fillers */
+	inputFormat?: string;
+	/** Selectors of the iframes enclosing the field, outermost first */
+	framePath?: string[];
+	/** Selectors of the shadow hosts enclosing the field, outermost first */
+	shadowPath?: string[];
+	/** Random pause before filling the field, in milliseconds */
+	minDelayMs?: number;
+	maxDelayMs?: number;
+	/** Recorded at scan time; finds the field when the selector stops matching */
+	fingerprint?: FieldFingerprint;
+}
+
+export type MappingTarget = ColumnName | MappingRule;
+export type Mapping = Record<Selector, MappingTarget>;
+
 // A richer object for more effective auto-mapping
-interface FieldInfo {
+export interface FieldInfo {
 	selector: string;
 	label?: string; // The human-readable label for the field
 	name?: string; // The name attribute
+	id?: string;
+	placeholder?: string;
+	ariaLabel?: string;
+	autocomplete?: string; // e.g. "given-name", "postal-code"
+	legend?: string; // fieldset legend, e.g. "Billing address"
+	heading?: string; // closest heading above the field
+	fingerprint?: FieldFingerprint; // carried into the suggested rule
+}
+
+export interface HeaderScore {
+	header: ColumnName;
+	score: number;
+}
+
+export interface FieldSuggestion {
+	selector: Selector;
+	/** Assigned header, or null when nothing scored above the threshold */
+	header: ColumnName | null;
+	/** Score of the assigned header, 0..1 */
+	confidence: number;
+	/** Next-best headers, best first, for the mapping UI */
+	alternatives: HeaderScore[];
+}
+
+export interface AutoMapResult {
+	mapping: Mapping;
+	suggestions: FieldSuggestion[];
+}
+
+export interface AutoMapOptions {
+	/** Synonyms used to relate labels and headers; defaults to the built-in packs */
+	vocabulary?: Vocabulary;
+}
+
+/** Who saved a mapping and why, recorded in its history */
+export interface SaveInfo {
+	author?: string;
+	comment?: string;
+}
+
+export interface MappingVersion {
+	/** Increases by one with every save of the mapping id */
+	version: number;
+	mapping: Mapping;
+	author: string;
+	/** ISO timestamp */
+	savedAt: string;
+	comment?: string;
+}
+
+export interface TargetChange {
+	selector: Selector;
+	before: MappingTarget;
+	after: MappingTarget;
+	/** Rule fields that differ, e.g. `column` or `transform` */
+	fields: string[];
+}
+
+export interface MappingDiff {
+	added: { selector: Selector; target: MappingTarget }[];
+	removed: { selector: Selector; target: MappingTarget }[];
+	changed: TargetChange[];
 }
 
 const MEMORY_STORE: { [key: string]: string } = {};
@@ -29,6 +142,8 @@ function getSyncStorage() {
 			set: (k: string, v: string): Promise<void> => {
 				return chrome.storage.local.set({ [k]: v });
 			},
+			remove: (k: string): Promise<void> => chrome.storage.local.remove(k),
+			keys: async (): Promise<string[]> => Object.keys(await chrome.storage.local.get(null)),
 		};
 	}
 
@@ -37,6 +152,8 @@ function getSyncStorage() {
 		return {
 			get: async (k: string) => localStorage.getItem(k) ?? undefined,
 			set: async (k: string, v: string) => localStorage.setItem(k, v),
+			remove: async (k: string) => localStorage.removeItem(k),
+			keys: async () => Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)!),
 		};
 	}
 
@@ -46,11 +163,82 @@ function getSyncStorage() {
 		set: async (k: string, v: string) => {
 			MEMORY_STORE[k] = v;
 		},
+		remove: async (k: string) => {
+			delete MEMORY_STORE[k];
+		},
+		keys: async () => Object.keys(MEMORY_STORE),
 	};
 }
 
 const storage = getSyncStorage();
 
+//--------------------------------------------------------------
+// Encrypted mapping storage
+//--------------------------------------------------------------
+
+// Mapping bodies, their history, URL patterns and forms all reveal selectors or sites
+const SECRET_PREFIXES = ['mapping:', 'mapping-history:', 'mapping-urls', 'mapping-forms'];
+// Set once mappings have moved into a vault; plaintext access is refused after that
+const VAULT_MARKER_KEY = 'mapping-vault';
+
+let vault: SelectorVault | null = null;
+
+export class VaultLockedError extends Error {
+	constructor() {
+		super('The selector vault is locked; unlock it to load or save mappings.');
+		this.name = 'VaultLockedError';
+	}
+}
+
+function isSecretKey(key: string): boolean {
+	return SECRET_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+async function requireVault(): Promise<SelectorVault | null> {
+	if (vault) {
+		if (!vault.isUnlocked()) throw new VaultLockedError();
+		return vault;
+	}
+	if (await storage.get(VAULT_MARKER_KEY)) throw new VaultLockedError();
+	return null;
+}
+
+// Mapping data goes through the vault when one is in use, plain storage otherwise
+const mappingStore = {
+	async get(key: string): Promise<string | undefined> {
+		const v = await requireVault();
+		return v ? v.getEntry(key) : storage.get(key);
+	},
+	async set(key: string, value: string): Promise<void> {
+		const v = await requireVault();
+		return v ? v.setEntry(key, value) : storage.set(key, value);
+	},
+};
+
+/**
+ * Stores mappings in `unlocked` from now on. Plaintext mappings left by
+ * earlier versions are moved into the vault and deleted; their keys are
+ * returned. Locking the vault later makes mapping reads and writes throw
+ * `VaultLockedError`.
+ */
+export async function setMappingVault(unlocked: SelectorVault): Promise<string[]> {
+	if (!unlocked.isUnlocked()) throw new VaultLockedError();
+	const plaintext = (await storage.keys()).filter(isSecretKey);
+	if (plaintext.length) {
+		const entries = await unlocked.load();
+		for (const key of plaintext) {
+			const value = await storage.get(key);
+			// Entries already in the vault are newer than leftover plaintext
+			if (value !== undefined && !entries.has(key)) entries.set(key, value);
+		}
+		await unlocked.save(entries);
+		for (const key of plaintext) await storage.remove(key);
+	}
+	await storage.set(VAULT_MARKER_KEY, '1');
+	vault = unlocked;
+	return plaintext;
+}
+
 //--------------------------------------------------------------
 // Core
 //--------------------------------------------------------------
@@ -71,14 +259,90 @@ export function generateMapping(fields: FieldInfo[], columns: ColumnName[]): Map
 export function validateMapping(mapping: Mapping): boolean {
 	if (!mapping || typeof mapping !== 'object') return false;
 	const selectors = Object.keys(mapping);
-	const columns = Object.values(mapping);
+	const targets = Object.values(mapping);
 	if (selectors.length === 0) return true; // Empty mapping is valid
 	if (selectors.some((s) => typeof s !== 'string' || !s.trim())) return false;
-	if (columns.some((c) => typeof c !== 'string' || !c.trim())) return false;
+	if (!targets.every(isValidTarget)) return false;
 	// Ensure selectors are unique, but columns can be duplicated
 	return new Set(selectors).size === selectors.length;
 }
 
+function isDictionary(obj: unknown): obj is Record<string, string> {
+	return (
+		obj !== null &&
+		typeof obj === 'object' &&
+		!Array.isArray(obj) &&
+		Object.values(obj).every((v) => typeof v === 'string')
+	);
+}
+
+function isSelectorList(obj: unknown): obj is string[] {
+	return Array.isArray(obj) && obj.every((s) => typeof s === 'string' && !!s.trim());
+}
+
+function isDelay(obj: unknown): obj is number {
+	return typeof obj === 'number' && Number.isInteger(obj) && obj >= 0;
+}
+
+/**
+ * Explains why `target` is not a valid mapping target, or returns null
+ * when it is. Mapping file readers use it to report line-level errors.
+ */
+export function describeInvalidTarget(target: unknown): string | null {
+	if (typeof target === 'string') return target.trim() ? null : 'column name is empty';
+	if (!target || typeof target !== 'object' || Array.isArray(target)) {
+		return 'expected a column name or a rule object';
+	}
+	const rule = target as MappingRule;
+	const hasColumn = typeof rule.column === 'string' && !!rule.column.trim();
+	const hasTemplate = typeof rule.template === 'string';
+	if (hasColumn === hasTemplate) return 'set exactly one of column or template';
+	for (const key of ['transform', 'when', 'type', 'inputFormat'] as const) {
+		if (rule[key] !== undefined && typeof rule[key] !== 'string') return `${key} must be a string`;
+	}
+	for (const key of ['skipEmpty', 'fuzzy'] as const) {
+		if (rule[key] !== undefined && typeof rule[key] !== 'boolean') return `${key} must be true or false`;
+	}
+	if (rule.options !== undefined && !isDictionary(rule.options)) {
+		return 'options must map strings to strings';
+	}
+	for (const key of ['framePath', 'shadowPath'] as const) {
+		if (rule[key] !== undefined && !isSelectorList(rule[key])) return `${key} must list selectors`;
+	}
+	for (const key of ['minDelayMs', 'maxDelayMs'] as const) {
+		if (rule[key] !== undefined && !isDelay(rule[key])) {
+			return `${key} must be a whole number of milliseconds`;
+		}
+	}
+	if (rule.minDelayMs !== undefined && rule.maxDelayMs !== undefined && rule.minDelayMs > rule.maxDelayMs) {
+		return 'minDelayMs is greater than maxDelayMs';
+	}
+	if (rule.fingerprint !== undefined) {
+		const problem = describeInvalidFingerprint(rule.fingerprint);
+		if (problem) return problem;
+	}
+	try {
+		if (hasTemplate) validateTemplate(rule.template!);
+	} catch (err) {
+		return `invalid template: ${(err as Error).message}`;
+	}
+	try {
+		if (rule.transform !== undefined) validateTransforms(rule.transform);
+	} catch (err) {
+		return `invalid transform: ${(err as Error).message}`;
+	}
+	try {
+		if (rule.when !== undefined) condition(rule.when);
+	} catch (err) {
+		return `invalid when: ${(err as Error).message}`;
+	}
+	return null;
+}
+
+function isValidTarget(target: unknown): boolean {
+	return describeInvalidTarget(target) === null;
+}
+
 // Type guard for safer parsing from storage.
 function isMapping(obj: unknown): obj is Mapping {
 	return (
@@ -86,21 +350,28 @@ function isMapping(obj: unknown): obj is Mapping {
 		typeof obj === 'object' &&
 		!Array.isArray(obj) &&
 		Object.entries(obj).every(
-			([k, v]) => typeof k === 'string' && typeof v === 'string'
+			([k, v]) =>
+				typeof k === 'string' &&
+				(typeof v === 'string' || (v !== null && typeof v === 'object' && !Array.isArray(v)))
 		)
 	);
 }
 
-export async function saveMapping(id: string, mapping: Mapping): Promise<void> {
+/**
+ * Stores `mapping` under `id` and records it in the mapping's history.
+ * Saving an unchanged mapping does not add a version.
+ */
+export async function saveMapping(id: string, mapping: Mapping, info: SaveInfo = {}): Promise<void> {
 	if (!validateMapping(mapping)) {
 		throw new Error('Invalid mapping; save aborted.');
 	}
 	const serialized = JSON.stringify(mapping);
-	await storage.set(`mapping:${id}`, serialized);
+	await mappingStore.set(`mapping:${id}`, serialized);
+	await recordVersion(id, mapping, info);
 }
 
 export async function loadMapping(id: string): Promise<Mapping | null> {
-	const raw = await storage.get(`mapping:${id}`);
+	const raw = await mappingStore.get(`mapping:${id}`);
 	if (!raw) return null;
 	try {
 		const parsed: unknown = JSON.parse(raw);
@@ -112,11 +383,59 @@ export async function loadMapping(id: string): Promise<Mapping | null> {
 	return null;
 }
 
-export function applyMapping(mapping: Mapping, rowData: RowData): SelectorValueMap {
+const conditions = new Map<string, RowSelection>();
+
+function condition(expression: string): RowSelection {
+	let selection = conditions.get(expression);
+	if (!selection) {
+		selection = parseRowSelection(expression);
+		conditions.set(expression, selection);
+	}
+	return selection;
+}
+
+/**
+ * Value a target produces for one row, or `undefined` when the field should
+ * be left alone: the column is absent, `when` does not match, or the value
+ * is blank under `skipEmpty`. Shared by every filler so the extension and
+ * the CLI agree. `context` feeds `$row`, `$const.NAME` and row ranges in
+ * `when`.
+ */
+export function resolveFieldValue(
+	target: MappingTarget,
+	rowData: RowData,
+	context: TemplateContext = {}
+): string | undefined {
+	const rule: MappingRule = typeof target === 'string' ? { column: target } : target;
+	if (
+		rule.when !== undefined &&
+		!condition(rule.when).matches({ id: context.rowNumber ?? '', data: rowData })
+	) {
+		return undefined;
+	}
+
+	let raw: string;
+	if (rule.template !== undefined) {
+		raw = renderTemplate(rule.template, rowData, context);
+	} else if (rule.column !== undefined && Object.prototype.hasOwnProperty.call(rowData, rule.column)) {
+		raw = rowData[rule.column];
+	} else {
+		return undefined;
+	}
+	const value = rule.transform ? applyTransforms(raw, rule.transform, rowData) : raw;
+	return rule.skipEmpty && value.trim() === '' ? undefined : value;
+}
+
+export function applyMapping(
+	mapping: Mapping,
+	rowData: RowData,
+	context: TemplateContext = {}
+): SelectorValueMap {
 	const result: SelectorValueMap = {};
-	for (const [selector, column] of Object.entries(mapping)) {
-		if (Object.prototype.hasOwnProperty.call(rowData, column)) {
-			result[selector] = rowData[column];
+	for (const [selector, target] of Object.entries(mapping)) {
+		const value = resolveFieldValue(target, rowData, context);
+		if (value !== undefined) {
+			result[selector] = value;
 		}
 	}
 	return result;
@@ -126,12 +445,55 @@ export function applyMapping(mapping: Mapping, rowData: RowData): SelectorValueM
 // Auto-mapping heuristics
 //--------------------------------------------------------------
 
+const MIN_SCORE = 0.2;
+const MAX_ALTERNATIVES = 3;
+// Score for texts that only agree through the vocabulary ("Surname" vs "Nachname")
+const SYNONYM_SCORE = 0.9;
+// Added when a header shares a word with the field's fieldset legend or heading
+const SECTION_BONUS = 0.05;
+
+// Words that carry no meaning in labels ("Please enter your email")
+const STOPWORDS = new Set([
+	'your', 'the', 'a', 'an', 'of', 'please', 'enter', 'here', 'required', 'optional',
+	'ihre', 'bitte', 'votre', 'veuillez', 'su', 'sua', 'uw',
+]);
+
+// Attribute weights: visible text is the most reliable signal
+const SOURCE_WEIGHTS: [Exclude<keyof FieldInfo, 'fingerprint' | 'legend' | 'heading'>, number][] = [
+	['label', 1],
+	['ariaLabel', 0.95],
+	['placeholder', 0.85],
+	['name', 0.8],
+	['id', 0.7],
+];
+
+// Header phrasings implied by HTML autocomplete tokens
+const AUTOCOMPLETE_HINTS: Record<string, string[]> = {
+	name: ['name', 'full name'],
+	'given-name': ['first name', 'given name', 'forename'],
+	'additional-name': ['middle name'],
+	'family-name': ['last name', 'surname', 'family name'],
+	email: ['email', 'email address', 'e mail'],
+	tel: ['phone', 'telephone', 'phone number', 'mobile'],
+	'street-address': ['address', 'street address', 'street'],
+	'address-line1': ['address', 'address line 1', 'street'],
+	'address-line2': ['address line 2', 'apartment', 'suite'],
+	'address-level1': ['state', 'province', 'region'],
+	'address-level2': ['city', 'town'],
+	'postal-code': ['zip', 'zip code', 'postal code', 'postcode'],
+	country: ['country'],
+	'country-name': ['country'],
+	organization: ['company', 'organization', 'organisation'],
+	'organization-title': ['job title', 'title', 'position'],
+	bday: ['birthday', 'date of birth', 'dob', 'birth date'],
+	sex: ['gender', 'sex'],
+	username: ['username', 'user name', 'login'],
+	url: ['website', 'url'],
+};
+
+// Unicode-aware: "Straße", "Имя" and "電話番号" all produce tokens
 function tokenize(str: string): string[] {
-	return str
-		.replace(/[^a-z0-9\s-]/gi, '') // Allow hyphens
-		.toLowerCase()
-		.split(/\s+/)
-		.filter(Boolean);
+	return tokenizeLabel(str).filter((t) => !STOPWORDS.has(t));
 }
 
 function jaccard(a: Set<string>, b: Set<string>): number {
@@ -142,37 +504,437 @@ function jaccard(a: Set<string>, b: Set<string>): number {
 }
 
 /**
- * Attempt to infer mapping between form fields and sheet headers.
+ * Token similarity that rewards a header fully contained in a longer label
+ * ("Your email address" vs "email") while keeping "first name" and
+ * "last name" apart.
  */
-export function autoMap(fields: FieldInfo[], headers: ColumnName[]): Mapping {
-	const mapping: Mapping = {};
-	const usedHeaders = new Set<string>();
-	const headerTokens = headers.map((h) => new Set(tokenize(h)));
-
-	for (const field of fields) {
-		let bestIdx = -1;
-		let bestScore = 0;
-		// Create a meaningful set of tokens from the field's label or name.
-		const fieldText = field.label || field.name || '';
-		if (!fieldText) continue;
-		const fieldTokens = new Set(tokenize(fieldText));
-
-		for (let i = 0; i < headers.length; i++) {
-			if (usedHeaders.has(headers[i])) continue;
-
-			const score = jaccard(fieldTokens, headerTokens[i]);
-			if (score > bestScore) {
-				bestScore = score;
-				bestIdx = i;
+function similarity(a: string[], b: string[]): number {
+	if (a.length === 0 || b.length === 0) return 0;
+	if (a.join('') === b.join('')) return 1; // "firstname" vs "first name"
+	const setA = new Set(a);
+	const setB = new Set(b);
+	const shared = [...setA].filter((x) => setB.has(x)).length;
+	const overlap = shared / Math.min(setA.size, setB.size);
+	return 0.5 * jaccard(setA, setB) + 0.5 * overlap * (shared === setB.size ? 1 : 0.5);
+}
+
+function scoreField(
+	field: FieldInfo,
+	header: ColumnName,
+	headerTokens: string[],
+	vocabulary: Vocabulary
+): number {
+	let best = 0;
+	for (const [key, weight] of SOURCE_WEIGHTS) {
+		const text = field[key];
+		if (!text) continue;
+		let score = similarity(tokenize(text), headerTokens);
+		if (score < SYNONYM_SCORE && vocabulary.related(text, header)) score = SYNONYM_SCORE;
+		best = Math.max(best, weight * score);
+	}
+	const hints = field.autocomplete ? AUTOCOMPLETE_HINTS[autocompleteToken(field.autocomplete)] : undefined;
+	for (const hint of hints ?? []) {
+		let score = similarity(tokenize(hint), headerTokens);
+		if (score < SYNONYM_SCORE && vocabulary.related(hint, header)) score = SYNONYM_SCORE;
+		best = Math.max(best, score);
+	}
+	// "Street" under "Billing address" leans towards billing_street over shipping_street
+	const section = field.legend ?? field.heading;
+	if (best > 0 && section) {
+		const own = new Set(tokenize(field.label ?? ''));
+		if (tokenize(section).some((t) => !own.has(t) && headerTokens.includes(t))) {
+			best = Math.min(1, best + SECTION_BONUS);
+		}
+	}
+	return best;
+}
+
+// "shipping postal-code" -> "postal-code"; section-* and address-type prefixes are ignored
+function autocompleteToken(value: string): string {
+	const parts = value.trim().toLowerCase().split(/\s+/);
+	return parts[parts.length - 1] ?? '';
+}
+
+/**
+ * Maximum-weight assignment of rows to columns (Hungarian algorithm with
+ * potentials, O(n^3)). Returns the column chosen for each row, or -1.
+ */
+function assign(scores: number[][], columns: number): number[] {
+	const rows = scores.length;
+	const n = Math.max(rows, columns);
+	if (n === 0) return [];
+	// Square cost matrix; padding cells cost nothing and are discarded later
+	const cost = (i: number, j: number) => (i < rows && j < columns ? 1 - scores[i][j] : 1);
+
+	const u = new Array(n + 1).fill(0);
+	const v = new Array(n + 1).fill(0);
+	const p = new Array(n + 1).fill(0); // p[j] = row assigned to column j (1-based)
+	const way = new Array(n + 1).fill(0);
+
+	for (let i = 1; i <= n; i++) {
+		p[0] = i;
+		let j0 = 0;
+		const minv = new Array(n + 1).fill(Infinity);
+		const used = new Array(n + 1).fill(false);
+		do {
+			used[j0] = true;
+			const i0 = p[j0];
+			let delta = Infinity;
+			let j1 = 0;
+			for (let j = 1; j <= n; j++) {
+				if (used[j]) continue;
+				const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+				if (cur < minv[j]) {
+					minv[j] = cur;
+					way[j] = j0;
+				}
+				if (minv[j] < delta) {
+					delta = minv[j];
+					j1 = j;
+				}
+			}
+			for (let j = 0; j <= n; j++) {
+				if (used[j]) {
+					u[p[j]] += delta;
+					v[j] -= delta;
+				} else {
+					minv[j] -= delta;
+				}
 			}
+			j0 = j1;
+		} while (p[j0] !== 0);
+		do {
+			const j1 = way[j0];
+			p[j0] = p[j1];
+			j0 = j1;
+		} while (j0);
+	}
+
+	const result = new Array(rows).fill(-1);
+	for (let j = 1; j <= n; j++) {
+		if (p[j] && p[j] <= rows && j <= columns) result[p[j] - 1] = j - 1;
+	}
+	return result;
+}
+
+/**
+ * Scores every field against every header and picks the globally best
+ * one-to-one assignment, so an early weak match cannot take the header a
+ * later field needs. Each suggestion carries its confidence and the
+ * runner-up headers.
+ */
+export function suggestMapping(
+	fields: FieldInfo[],
+	headers: ColumnName[],
+	options: AutoMapOptions = {}
+): AutoMapResult {
+	const vocabulary = options.vocabulary ?? defaultVocabulary;
+	const headerTokens = headers.map((h) => tokenize(h));
+	const scores = fields.map((field) =>
+		headerTokens.map((tokens, j) => {
+			const score = scoreField(field, headers[j], tokens, vocabulary);
+			// Weak matches contribute nothing, so they never outweigh a strong one
+			return score >= MIN_SCORE ? Math.round(score * 1000) / 1000 : 0;
+		})
+	);
+	const assigned = assign(scores, headers.length);
+
+	const mapping: Mapping = {};
+	const suggestions = fields.map((field, i): FieldSuggestion => {
+		const j = assigned[i];
+		const header = j >= 0 && scores[i][j] > 0 ? headers[j] : null;
+		if (header !== null) {
+			mapping[field.selector] = field.fingerprint ? { column: header, fingerprint: field.fingerprint } : header;
 		}
+		const alternatives = scores[i]
+			.map((score, k) => ({ header: headers[k], score }))
+			.filter((alt, k) => alt.score > 0 && k !== j)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, MAX_ALTERNATIVES);
+		return {
+			selector: field.selector,
+			header,
+			confidence: header !== null ? scores[i][j] : 0,
+			alternatives,
+		};
+	});
+
+	return { mapping, suggestions };
+}
 
-		// Use a threshold to avoid weak matches
-		if (bestIdx !== -1 && bestScore >= 0.2) {
-			mapping[field.selector] = headers[bestIdx];
-			usedHeaders.add(headers[bestIdx]);
+/**
+ * Attempt to infer mapping between form fields and sheet headers.
+ */
+export function autoMap(
+	fields: FieldInfo[],
+	headers: ColumnName[],
+	options: AutoMapOptions = {}
+): Mapping {
+	return suggestMapping(fields, headers, options).mapping;
+}
+
+//--------------------------------------------------------------
+// Team vocabulary
+//--------------------------------------------------------------
+
+const TEAM_VOCABULARY_KEY = 'vocabulary:team';
+
+/**
+ * Stores a team's synonym pack; it is merged over the built-in packs by
+ * `loadVocabulary`.
+ */
+export async function saveTeamVocabulary(pack: VocabularyPack): Promise<void> {
+	validatePack(pack);
+	await storage.set(TEAM_VOCABULARY_KEY, JSON.stringify(pack));
+}
+
+/**
+ * Built-in packs plus the saved team pack, if any.
+ */
+export async function loadVocabulary(): Promise<Vocabulary> {
+	const raw = await storage.get(TEAM_VOCABULARY_KEY);
+	if (!raw) return defaultVocabulary;
+	try {
+		const pack: unknown = JSON.parse(raw);
+		validatePack(pack);
+		return new Vocabulary([...BUILTIN_PACKS, pack]);
+	} catch {
+		/* a corrupt team pack must not break auto-mapping */
+		return defaultVocabulary;
+	}
+}
+
+//--------------------------------------------------------------
+// Version history
+//--------------------------------------------------------------
+
+// Older versions are dropped once a mapping has this many
+const MAX_VERSIONS = 25;
+
+function historyKey(id: string): string {
+	return `mapping-history:${id}`;
+}
+
+function isVersion(obj: unknown): obj is MappingVersion {
+	const v = obj as MappingVersion;
+	return (
+		!!v &&
+		typeof v === 'object' &&
+		Number.isInteger(v.version) &&
+		isMapping(v.mapping) &&
+		typeof v.author === 'string' &&
+		typeof v.savedAt === 'string'
+	);
+}
+
+async function readHistory(id: string): Promise<MappingVersion[]> {
+	const raw = await mappingStore.get(historyKey(id));
+	if (!raw) return [];
+	try {
+		const parsed: unknown = JSON.parse(raw);
+		if (Array.isArray(parsed)) return parsed.filter(isVersion);
+	} catch {
+		/* a corrupt history must not block saving */
+	}
+	return [];
+}
+
+async function recordVersion(id: string, mapping: Mapping, info: SaveInfo): Promise<void> {
+	const history = await readHistory(id);
+	const latest = history[history.length - 1];
+	if (latest && !hasChanges(diffMappings(latest.mapping, mapping))) return;
+	history.push({
+		version: (latest?.version ?? 0) + 1,
+		mapping,
+		author: info.author?.trim() || 'unknown',
+		savedAt: new Date().toISOString(),
+		...(info.comment?.trim() ? { comment: info.comment.trim() } : {}),
+	});
+	await mappingStore.set(historyKey(id), JSON.stringify(history.slice(-MAX_VERSIONS)));
+}
+
+/**
+ * Saved versions of a mapping, newest first.
+ */
+export async function listMappingVersions(id: string): Promise<MappingVersion[]> {
+	return (await readHistory(id)).reverse();
+}
+
+export async function getMappingVersion(id: string, version: number): Promise<MappingVersion | null> {
+	return (await readHistory(id)).find((v) => v.version === version) ?? null;
+}
+
+function ruleOf(target: MappingTarget): MappingRule {
+	return typeof target === 'string' ? { column: target } : target;
+}
+
+// Fields of two targets that differ; `"email"` and `{ column: "email" }` are equal
+function changedFields(before: MappingTarget, after: MappingTarget): string[] {
+	const a = ruleOf(before) as Record<string, unknown>;
+	const b = ruleOf(after) as Record<string, unknown>;
+	return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+		.filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+		.sort();
+}
+
+export function diffMappings(before: Mapping, after: Mapping): MappingDiff {
+	const diff: MappingDiff = { added: [], removed: [], changed: [] };
+	for (const [selector, target] of Object.entries(after)) {
+		if (!(selector in before)) {
+			diff.added.push({ selector, target });
+			continue;
 		}
+		const fields = changedFields(before[selector], target);
+		if (fields.length) diff.changed.push({ selector, before: before[selector], after: target, fields });
+	}
+	for (const [selector, target] of Object.entries(before)) {
+		if (!(selector in after)) diff.removed.push({ selector, target });
 	}
+	return diff;
+}
 
-	return mapping;
+export function hasChanges(diff: MappingDiff): boolean {
+	return diff.added.length + diff.removed.length + diff.changed.length > 0;
+}
+
+/**
+ * Diff between two saved versions of a mapping, `from` -> `to`.
+ */
+export async function diffMappingVersions(id: string, from: number, to: number): Promise<MappingDiff> {
+	const history = await readHistory(id);
+	const find = (version: number) => {
+		const found = history.find((v) => v.version === version);
+		if (!found) throw new Error(`Mapping "${id}" has no version ${version}.`);
+		return found.mapping;
+	};
+	return diffMappings(find(from), find(to));
+}
+
+/**
+ * Makes an older version current again. The rollback is saved as a new
+ * version, so it can itself be undone.
+ */
+export async function restoreMappingVersion(
+	id: string,
+	version: number,
+	info: SaveInfo = {}
+): Promise<Mapping> {
+	const target = await getMappingVersion(id, version);
+	if (!target) throw new Error(`Mapping "${id}" has no version ${version}.`);
+	await saveMapping(id, target.mapping, {
+		author: info.author,
+		comment: info.comment ?? `Restored version ${version}`,
+	});
+	return target.mapping;
+}
+
+//--------------------------------------------------------------
+// URL patterns
+//--------------------------------------------------------------
+
+const URL_INDEX_KEY = 'mapping-urls';
+
+export interface ResolvedMapping {
+	id: string;
+	/** The pattern that selected the mapping */
+	pattern: string;
+	mapping: Mapping;
+	/** The form the mapping is limited to, if one was chosen */
+	form?: FormTarget;
+}
+
+/** Several mappings match a page equally well; `matches` lists them. */
+export class MappingConflictError extends Error {
+	constructor(
+		public readonly url: string,
+		public readonly matches: UrlMatch<string>[]
+	) {
+		super(describeUrlConflict(url, matches, (id) => `"${id}"`));
+		this.name = 'MappingConflictError';
+	}
+}
+
+async function readIndex<T>(key: string): Promise<Record<string, T>> {
+	const raw = await mappingStore.get(key);
+	if (!raw) return {};
+	try {
+		const parsed: unknown = JSON.parse(raw);
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+			return parsed as Record<string, T>;
+		}
+	} catch {
+		/* treat a corrupt index as empty */
+	}
+	return {};
+}
+
+/**
+ * Declares the pages mapping `id` is for (see urlpattern.ts). An empty
+ * list removes the mapping from automatic selection.
+ */
+export async function setMappingUrls(id: string, patterns: string[]): Promise<void> {
+	const cleaned = patterns.map((p) => p.trim()).filter(Boolean);
+	cleaned.forEach(parseUrlPattern); // throws UrlPatternError on a bad pattern
+	const index = await readIndex<string[]>(URL_INDEX_KEY);
+	if (cleaned.length) index[id] = cleaned;
+	else delete index[id];
+	await mappingStore.set(URL_INDEX_KEY, JSON.stringify(index));
+}
+
+export async function getMappingUrls(id: string): Promise<string[]> {
+	return (await readIndex<string[]>(URL_INDEX_KEY))[id] ?? [];
+}
+
+/**
+ * Finds the mapping whose URL patterns best fit `url`. Returns null when
+ * none match and throws `MappingConflictError` when the best are tied.
+ */
+export async function resolveMappingForUrl(url: string): Promise<ResolvedMapping | null> {
+	const index = await readIndex<string[]>(URL_INDEX_KEY);
+	const candidates = Object.entries(index).map(([item, patterns]) => ({ item, patterns }));
+	const { best, conflicts } = resolveUrl(url, candidates);
+	if (conflicts.length) throw new MappingConflictError(url, conflicts);
+	if (!best) return null;
+	const mapping = await loadMapping(best.item);
+	if (!mapping) throw new Error(`Mapping "${best.item}" matches ${url} but is not saved.`);
+	const form = await getMappingForm(best.item);
+	return { id: best.item, pattern: best.pattern, mapping, ...(form ? { form } : {}) };
+}
+
+//--------------------------------------------------------------
+// Form scope
+//--------------------------------------------------------------
+
+const FORM_INDEX_KEY = 'mapping-forms';
+
+/** Why `form` cannot scope a mapping, or null when it can. */
+export function describeInvalidForm(form: FormTarget): string | null {
+	const isPath = (p: unknown) =>
+		p === undefined || (Array.isArray(p) && p.every((s) => typeof s === 'string' && s.trim()));
+	if (typeof form?.selector !== 'string' || !form.selector.trim()) return 'needs a selector';
+	if (!isPath(form.framePath) || !isPath(form.shadowPath)) return 'framePath and shadowPath must be lists of selectors';
+	if (form.submit !== undefined && (typeof form.submit !== 'string' || !form.submit.trim())) {
+		return 'submit must be a selector';
+	}
+	return null;
+}
+
+/**
+ * Limits mapping `id` to one form of the page (see domscanner.ts); fills
+ * then only look inside it and click its submit control. `null` lifts the
+ * limit.
+ */
+export async function setMappingForm(id: string, form: FormTarget | null): Promise<void> {
+	if (form) {
+		const problem = describeInvalidForm(form);
+		if (problem) throw new Error(`Form for mapping "${id}" ${problem}.`);
+	}
+	const index = await readIndex<FormTarget>(FORM_INDEX_KEY);
+	if (form) index[id] = form;
+	else delete index[id];
+	await mappingStore.set(FORM_INDEX_KEY, JSON.stringify(index));
+}
+
+export async function getMappingForm(id: string): Promise<FormTarget | null> {
+	return (await readIndex<FormTarget>(FORM_INDEX_KEY))[id] ?? null;
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import type { Mapping } from './mappingengine.js';
+import { MappingFileError, mappingFormat, parseMappingFile, serializeMapping } from './mappingfile.js';
+
+const mapping: Mapping = {
+  '#email': 'email',
+  "input[name='phone']": { column: 'phone', type: 'text', inputFormat: 'tel', transform: 'trim | phone("GB")' },
+  '#plan': { column: 'plan', type: 'select', options: { Gold: 'premium' }, fuzzy: false },
+  '#name': { template: '{{first}} {{last}}', when: 'country = NO', skipEmpty: true },
+  '#inner': {
+    column: 'x',
+    framePath: ['iframe#pay'],
+    shadowPath: ['my-card', 'card-field'],
+    minDelayMs: 100,
+    maxDelayMs: 300,
+  },
+};
+
+async function issues(text: string, format: 'csv' | 'yaml' | 'json'): Promise<string[]> {
+  try {
+    await parseMappingFile(text, format);
+  } catch (err) {
+    if (err instanceof MappingFileError) return err.issues.map((i) => `${i.line}: ${i.message}`);
+    throw err;
+  }
+  return [];
+}
+
+describe('serializeMapping / parseMappingFile', () => {
+  it.each(['csv', 'yaml', 'json'] as const)('round-trips %s', async (format) => {
+    const text = serializeMapping(mapping, format);
+    await expect(parseMappingFile(text, format)).resolves.toEqual(mapping);
+  });
+
+  it('writes the samplemapping.csv columns first', () => {
+    const [header] = serializeMapping({ '#a': 'a' }, 'csv').split('\n');
+    expect(header).toBe(
+      'gsheet_column,css_selector,field_type,input_format,frame_path,shadow_dom_path,min_delay_ms,max_delay_ms,transform',
+    );
+  });
+
+  it('reads the older selector-keyed object and valueColumn', async () => {
+    await expect(
+      parseMappingFile('{ "#a": "a", "#b": { "valueColumn": "b", "type": "checkbox" } }', 'json'),
+    ).resolves.toEqual({ '#a': 'a', '#b': { column: 'b', type: 'checkbox' } });
+  });
+});
+
+describe('parseMappingFile errors', () => {
+  it('reports CSV problems with their line', async () => {
+    const csv = [
+      'gsheet_column,css_selector,colour',
+      'email,#email,red',
+      'phone,,',
+      'name,"#name',
+      'x",blue',
+      'age,#age,',
+      'email,#email,',
+    ].join('\n');
+    expect(await issues(csv, 'csv')).toEqual([
+      '1: unknown column "colour"',
+      '3: missing selector',
+      '7: selector "#email" is already mapped on line 2',
+    ]);
+  });
+
+  it('checks CSV cell values', async () => {
+    const csv = 'gsheet_column,css_selector,min_delay_ms,skip_empty,options\na,#a,soon,maybe,{bad\n';
+    expect(await issues(csv, 'csv')).toEqual([
+      '2: min_delay_ms must be a whole number, got "soon"',
+      '2: skip_empty must be true or false, got "maybe"',
+      '2: options must be a JSON object, e.g. {"Yes":"Y"}',
+    ]);
+  });
+
+  it('reports YAML entries on the line they start', async () => {
+    const text = ['- selector: "#a"', '  column: a', '- selector: "#b"', '  colour: red', '- column: c', ''].join('\n');
+    expect(await issues(text, 'yaml')).toEqual([
+      '3: unknown key "colour"',
+      '3: "#b": set exactly one of column or template',
+      '5: missing selector',
+    ]);
+  });
+
+  it('reports JSON entries on the line they start', async () => {
+    const text = [
+      '[',
+      '  { "selector": "#a", "column": "a" },',
+      '  { "selector": "#a", "column": "b" }',
+      ']',
+    ].join('\n');
+    expect(await issues(text, 'json')).toEqual(['3: selector "#a" is already mapped on line 2']);
+  });
+
+  it('reports syntax errors with their line', async () => {
+    expect(await issues('[\n  { "selector": "#a" ,, }\n]', 'json')).toEqual([
+      expect.stringMatching(/^2: invalid JSON: /),
+    ]);
+    expect(await issues('- selector: "#a"\n  column: [a\n', 'yaml')).toEqual([
+      expect.stringMatching(/^\d: invalid YAML: /),
+    ]);
+    expect(await issues('', 'json')).toEqual([expect.stringMatching(/^1: invalid JSON/)]);
+  });
+
+  it('names the source in the error message', async () => {
+    await expect(parseMappingFile('[]', 'json', 'signup.json')).rejects.toThrow('signup.json:1: no mapping entries');
+  });
+});
+
+describe('mappingFormat', () => {
+  it('reads the format from the extension', () => {
+    expect(mappingFormat('a.CSV')).toBe('csv');
+    expect(mappingFormat('a.yml')).toBe('yaml');
+    expect(mappingFormat('a.yaml')).toBe('yaml');
+    expect(mappingFormat('mapping')).toBe('json');
+  });
+});
+
+describe('fingerprints', () => {
+  const fingerprint = { tag: 'input', type: 'email', name: 'email', css: '#email', xpath: '/html[1]/body[1]/input[1]' };
+
+  it.each(['csv', 'yaml', 'json'] as const)('round-trips a fingerprint in %s', async (format) => {
+    const withPrint: Mapping = { '#email': { column: 'email', fingerprint } };
+    await expect(parseMappingFile(serializeMapping(withPrint, format), format)).resolves.toEqual(withPrint);
+  });
+
+  it('reports an invalid fingerprint on its line', async () => {
+    const csv = 'gsheet_column,css_selector,fingerprint\na,#a,"{""tag"":""input""}"\nb,#b,nope\n';
+    expect(await issues(csv, 'csv')).toEqual([
+      '2: "#a": fingerprint.css must be a non-empty string',
+      '3: fingerprint must be a JSON object',
+    ]);
+  });
+});
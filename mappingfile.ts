@@ -0,0 +1,427 @@
+import yaml, { EventType, State, YAMLException } from 'js-yaml';
+import { formatCsvRecord, parseCsv } from './csvparser.js';
+import { describeInvalidTarget, Mapping, MappingRule, MappingTarget } from './mappingengine.js';
+
+/**
+ * Mapping files shared by the extension and the CLI. Three layouts carry
+ * the same model (`Mapping` from mappingengine.ts):
+ *
+ *   CSV   the samplemapping.csv columns, one field per row
+ *   YAML  a list of entries: `- selector: "#email"` / `column: email` ...
+ *   JSON  the same list, or the older `{ "<selector>": "<column>" }` object
+ *
+ * Parsing reports every problem at once, each with the line it was found
+ * on, so a hand-edited file can be fixed in one pass.
+ */
+
+export type MappingFormat = 'csv' | 'yaml' | 'json';
+
+export interface MappingIssue {
+  /** 1-based line in the source text */
+  line: number;
+  message: string;
+}
+
+export class MappingFileError extends Error {
+  constructor(
+    public readonly issues: MappingIssue[],
+    public readonly source = 'mapping',
+  ) {
+    super(issues.map((i) => `${source}:${i.line}: ${i.message}`).join('\n'));
+    this.name = 'MappingFileError';
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Columns                                                                    */
+/* -------------------------------------------------------------------------- */
+
+type RuleKey = keyof MappingRule;
+
+/* CSV column -> rule key, in export order. The first nine match samplemapping.csv. */
+const CSV_COLUMNS: [string, RuleKey | 'selector'][] = [
+  ['gsheet_column', 'column'],
+  ['css_selector', 'selector'],
+  ['field_type', 'type'],
+  ['input_format', 'inputFormat'],
+  ['frame_path', 'framePath'],
+  ['shadow_dom_path', 'shadowPath'],
+  ['min_delay_ms', 'minDelayMs'],
+  ['max_delay_ms', 'maxDelayMs'],
+  ['transform', 'transform'],
+  ['template', 'template'],
+  ['when', 'when'],
+  ['skip_empty', 'skipEmpty'],
+  ['options', 'options'],
+  ['fuzzy', 'fuzzy'],
+  ['fingerprint', 'fingerprint'],
+];
+
+/* Columns written even when every entry leaves them empty */
+const CSV_REQUIRED_COLUMNS = 9;
+
+/* YAML / JSON entry keys, in export order */
+const ENTRY_KEYS: (RuleKey | 'selector')[] = [
+  'selector',
+  'column',
+  'template',
+  'type',
+  'inputFormat',
+  'framePath',
+  'shadowPath',
+  'minDelayMs',
+  'maxDelayMs',
+  'transform',
+  'when',
+  'skipEmpty',
+  'options',
+  'fuzzy',
+  'fingerprint',
+];
+
+/* Frame and shadow paths are written as one cell, like contentscript deep selectors */
+const PATH_SEPARATOR = ' >>> ';
+
+/* -------------------------------------------------------------------------- */
+/* Building the mapping                                                       */
+/* -------------------------------------------------------------------------- */
+
+interface RawEntry {
+  line: number;
+  selector: unknown;
+  rule: Record<string, unknown>;
+}
+
+/** A rule naming only a column collapses to the bare column shorthand. */
+function compactTarget(rule: MappingRule): MappingTarget {
+  const keys = Object.keys(rule);
+  return keys.length === 1 && keys[0] === 'column' ? rule.column! : rule;
+}
+
+function buildMapping(entries: RawEntry[], issues: MappingIssue[], source: string): Mapping {
+  const mapping: Mapping = {};
+  const seen = new Map<string, number>();
+  for (const { line, selector, rule } of entries) {
+    if (typeof selector !== 'string' || !selector.trim()) {
+      issues.push({ line, message: 'missing selector' });
+      continue;
+    }
+    const key = selector.trim();
+    const first = seen.get(key);
+    if (first !== undefined) {
+      issues.push({ line, message: `selector "${key}" is already mapped on line ${first}` });
+      continue;
+    }
+    seen.set(key, line);
+    const problem = describeInvalidTarget(rule);
+    if (problem) {
+      issues.push({ line, message: `"${key}": ${problem}` });
+      continue;
+    }
+    mapping[key] = compactTarget(rule as MappingRule);
+  }
+  if (issues.length) throw new MappingFileError(issues.sort((a, b) => a.line - b.line), source);
+  return mapping;
+}
+
+/* -------------------------------------------------------------------------- */
+/* CSV                                                                        */
+/* -------------------------------------------------------------------------- */
+
+const BOOLEAN_CELLS: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  '1': true,
+  false: false,
+  no: false,
+  '0': false,
+};
+
+/** Converts one CSV cell to its rule value; throws a readable message when it cannot. */
+function csvCell(column: string, key: RuleKey, cell: string): unknown {
+  switch (key) {
+    case 'framePath':
+    case 'shadowPath':
+      return cell.split(PATH_SEPARATOR.trim()).map((s) => s.trim());
+    case 'minDelayMs':
+    case 'maxDelayMs':
+      if (!/^\d+$/.test(cell)) throw new Error(`${column} must be a whole number, got "${cell}"`);
+      return Number(cell);
+    case 'skipEmpty':
+    case 'fuzzy': {
+      const flag = BOOLEAN_CELLS[cell.toLowerCase()];
+      if (flag === undefined) throw new Error(`${column} must be true or false, got "${cell}"`);
+      return flag;
+    }
+    case 'options':
+    case 'fingerprint': {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(cell);
+      } catch {
+        throw new Error(`${column} must be a JSON object${key === 'options' ? ', e.g. {"Yes":"Y"}' : ''}`);
+      }
+      return parsed;
+    }
+    default:
+      return cell;
+  }
+}
+
+async function* once(text: string): AsyncIterable<string> {
+  yield text;
+}
+
+async function readCsv(text: string, issues: MappingIssue[]): Promise<RawEntry[]> {
+  const entries: RawEntry[] = [];
+  let header: [string, RuleKey | 'selector' | undefined][] | null = null;
+  let line = 1;
+
+  for await (const cells of parseCsv(once(text))) {
+    const recordLine = line;
+    /* Quoted cells may span lines; keep counting physical lines */
+    line += 1 + cells.reduce((n, c) => n + (c.match(/\r\n|\r|\n/g)?.length ?? 0), 0);
+    if (cells.every((c) => !c.trim())) continue;
+
+    if (!header) {
+      header = cells.map((name) => {
+        const column = name.trim().toLowerCase();
+        const known = CSV_COLUMNS.find(([c]) => c === column);
+        if (!known) issues.push({ line: recordLine, message: `unknown column "${name.trim()}"` });
+        return [column, known?.[1]];
+      });
+      if (!header.some(([, key]) => key === 'selector')) {
+        issues.push({ line: recordLine, message: 'missing the css_selector column' });
+      }
+      continue;
+    }
+
+    const entry: RawEntry = { line: recordLine, selector: undefined, rule: {} };
+    header.forEach(([column, key], i) => {
+      const cell = (cells[i] ?? '').trim();
+      if (!key || !cell) return;
+      if (key === 'selector') {
+        entry.selector = cell;
+        return;
+      }
+      try {
+        entry.rule[key] = csvCell(column, key, cell);
+      } catch (err) {
+        issues.push({ line: recordLine, message: err instanceof Error ? err.message : String(err) });
+      }
+    });
+    if (cells.length > header.length) {
+      issues.push({ line: recordLine, message: `${cells.length} cells but ${header.length} columns` });
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+function writeCsv(mapping: Mapping): string {
+  const rules = Object.entries(mapping).map(([selector, target]) => ({ selector, ...toRule(target) }));
+  const columns = CSV_COLUMNS.filter(
+    ([, key], i) =>
+      i < CSV_REQUIRED_COLUMNS || rules.some((r) => (r as Record<string, unknown>)[key] !== undefined),
+  );
+  const lines = [formatCsvRecord(columns.map(([column]) => column))];
+  for (const rule of rules) {
+    const cells = columns.map(([, key]) => {
+      const value = (rule as Record<string, unknown>)[key];
+      if (value === undefined) return '';
+      if (Array.isArray(value)) return value.join(PATH_SEPARATOR);
+      if (typeof value === 'object') return JSON.stringify(value);
+      return String(value);
+    });
+    lines.push(formatCsvRecord(cells));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/* -------------------------------------------------------------------------- */
+/* YAML / JSON                                                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Turns a parsed document into entries. Accepts a list of entries or an
+ * object keyed by selector whose values are column names or rules (the
+ * original `runjob` mapping file). `valueColumn` is read as `column`.
+ */
+function readDocument(doc: unknown, lines: number[], issues: MappingIssue[]): RawEntry[] {
+  const lineOf = (i: number) => lines[i] ?? 1;
+  const toEntry = (value: unknown, i: number, key?: string): RawEntry | null => {
+    if (typeof value === 'string') return { line: lineOf(i), selector: key, rule: { column: value } };
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ line: lineOf(i), message: 'expected an entry object' });
+      return null;
+    }
+    const { selector = key, valueColumn, ...rule } = value as Record<string, unknown>;
+    if (valueColumn !== undefined && rule.column === undefined) rule.column = valueColumn;
+    for (const field of ['framePath', 'shadowPath']) {
+      if (typeof rule[field] === 'string') {
+        rule[field] = (rule[field] as string).split(PATH_SEPARATOR.trim()).map((s) => s.trim());
+      }
+    }
+    for (const field of Object.keys(rule)) {
+      if (!ENTRY_KEYS.includes(field as RuleKey)) {
+        issues.push({ line: lineOf(i), message: `unknown key "${field}"` });
+        delete rule[field];
+      }
+    }
+    return { line: lineOf(i), selector, rule };
+  };
+
+  let entries: (RawEntry | null)[];
+  if (Array.isArray(doc)) {
+    entries = doc.map((value, i) => toEntry(value, i));
+  } else if (doc && typeof doc === 'object') {
+    entries = Object.entries(doc).map(([key, value], i) => toEntry(value, i, key));
+  } else {
+    issues.push({ line: 1, message: 'expected a list of entries or an object keyed by selector' });
+    entries = [];
+  }
+  return entries.filter((e): e is RawEntry => e !== null);
+}
+
+/**
+ * Start lines of the top-level list items (or object values) in a JSON
+ * text, in document order. Strings are skipped so brackets inside
+ * selectors do not count.
+ */
+function jsonItemLines(text: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let expectValue = false;
+  let isArray = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') line++;
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(ch)) continue;
+    if (depth === 1 && expectValue) {
+      lines.push(line);
+      expectValue = false;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '[' || ch === '{') {
+      depth++;
+      if (depth === 1) {
+        isArray = ch === '[';
+        expectValue = isArray;
+      }
+    } else if (ch === ']' || ch === '}') depth--;
+    else if (depth === 1 && (ch === ',' ? isArray : ch === ':')) expectValue = true;
+  }
+  return lines;
+}
+
+function readJson(text: string, issues: MappingIssue[]): RawEntry[] {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    /* V8 reports "at position N"; turn it into a line */
+    const at = /position (\d+)/.exec(message);
+    const line = at ? text.slice(0, Number(at[1])).split('\n').length : 1;
+    issues.push({ line, message: `invalid JSON: ${message}` });
+    return [];
+  }
+  return readDocument(doc, jsonItemLines(text), issues);
+}
+
+function readYaml(text: string, issues: MappingIssue[]): RawEntry[] {
+  /* Record where each top-level item starts via the loader's node events */
+  const lines: number[] = [];
+  let depth = 0;
+  let doc: unknown;
+  try {
+    doc = yaml.load(text, {
+      listener(event: EventType, state: State) {
+        if (event === 'open') {
+          if (depth === 1) lines.push(state.line + 1);
+          depth++;
+        } else {
+          depth--;
+        }
+      },
+    });
+  } catch (err) {
+    if (!(err instanceof YAMLException)) throw err;
+    issues.push({ line: err.mark ? err.mark.line + 1 : 1, message: `invalid YAML: ${err.reason}` });
+    return [];
+  }
+  if (doc && typeof doc === 'object' && !Array.isArray(doc)) {
+    /* Mapping keys are nodes too; keep only the value lines */
+    return readDocument(doc, lines.filter((_, i) => i % 2 === 1), issues);
+  }
+  return readDocument(doc, lines, issues);
+}
+
+function toRule(target: MappingTarget): MappingRule {
+  return typeof target === 'string' ? { column: target } : target;
+}
+
+function toEntries(mapping: Mapping): Record<string, unknown>[] {
+  return Object.entries(mapping).map(([selector, target]) => {
+    const rule: Record<string, unknown> = { selector, ...toRule(target) };
+    const entry: Record<string, unknown> = {};
+    for (const key of ENTRY_KEYS) if (rule[key] !== undefined) entry[key] = rule[key];
+    return entry;
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/* Public API                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/** Format implied by a file name; unknown extensions are read as JSON. */
+export function mappingFormat(fileName: string): MappingFormat {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'yaml' || ext === 'yml') return 'yaml';
+  return 'json';
+}
+
+/**
+ * Parses and validates a mapping file. Throws `MappingFileError` listing
+ * every problem found, each with its line number.
+ */
+export async function parseMappingFile(
+  text: string,
+  format: MappingFormat,
+  source?: string,
+): Promise<Mapping> {
+  const issues: MappingIssue[] = [];
+  let entries: RawEntry[];
+  if (format === 'csv') {
+    try {
+      entries = await readCsv(text, issues);
+    } catch (err) {
+      issues.push({
+        line: text.split('\n').length,
+        message: err instanceof Error ? err.message : String(err),
+      });
+      entries = [];
+    }
+  } else {
+    entries = format === 'yaml' ? readYaml(text, issues) : readJson(text, issues);
+  }
+  if (!issues.length && !entries.length) issues.push({ line: 1, message: 'no mapping entries' });
+  return buildMapping(entries, issues, source ?? `mapping.${format}`);
+}
+
+/** Writes `mapping` in `format`; `parseMappingFile` reads it back unchanged. */
+export function serializeMapping(mapping: Mapping, format: MappingFormat): string {
+  if (format === 'csv') return writeCsv(mapping);
+  const entries = toEntries(mapping);
+  return format === 'yaml'
+    ? yaml.dump(entries, { lineWidth: -1, noRefs: true })
+    : JSON.stringify(entries, null, 2) + '\n';
+}
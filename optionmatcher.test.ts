@@ -0,0 +1,90 @@
+import {
+  describeUnmatched,
+  lookupDictionary,
+  matchOption,
+  normalizeOptionText,
+  OptionCandidate,
+  radioFallback,
+} from './optionmatcher.js';
+
+const states: OptionCandidate[] = [
+  { value: '', label: 'Choose...' },
+  { value: 'CA', label: 'California' },
+  { value: 'CO', label: 'Colorado' },
+  { value: 'NY', label: 'New York' },
+  { value: 'DE', label: 'Germany' },
+];
+
+function pick(value: string, opts = {}) {
+  const match = matchOption(value, states, opts);
+  return match && [match.option.value, match.strategy];
+}
+
+describe('normalizeOptionText', () => {
+  it('drops case, accents and punctuation', () => {
+    expect(normalizeOptionText('  Côte-d’Ivoire! ')).toBe('cote d ivoire');
+  });
+});
+
+describe('matchOption', () => {
+  it('tries exact, normalised, prefix and edit-distance matches in order', () => {
+    expect(pick('NY')).toEqual(['NY', 'exact']);
+    expect(pick('New York')).toEqual(['NY', 'exact']);
+    expect(pick('new-york')).toEqual(['NY', 'normalized']);
+    expect(pick('Calif')).toEqual(['CA', 'prefix']);
+    expect(pick('Germnay')).toEqual(['DE', 'fuzzy']);
+  });
+
+  it('treats ambiguous prefixes and short values as no match', () => {
+    expect(pick('C')).toBeNull();
+    expect(pick('Nyx')).toBeNull();
+    expect(pick('')).toEqual(['', 'exact']);
+    expect(pick('!!')).toBeNull();
+  });
+
+  it('only matches exactly when fuzzy is off', () => {
+    expect(pick('new york', { fuzzy: false })).toBeNull();
+    expect(pick('CA', { fuzzy: false })).toEqual(['CA', 'exact']);
+  });
+
+  it('uses the dictionary first and never guesses past it', () => {
+    const dictionary = { Golden: 'California', 'big apple': 'ny', Nowhere: 'Atlantis' };
+    expect(pick('golden', { dictionary })).toEqual(['CA', 'dictionary']);
+    expect(pick('Big Apple', { dictionary })).toEqual(['NY', 'dictionary']);
+    expect(pick('Big Apple', { dictionary, fuzzy: false })).toBeNull();
+    expect(pick('Nowhere', { dictionary })).toBeNull();
+  });
+});
+
+describe('lookupDictionary', () => {
+  it('prefers an exact key over a normalised one', () => {
+    const dictionary = { Yes: 'exact', YES: 'upper' };
+    expect(lookupDictionary('YES', dictionary)).toBe('upper');
+    expect(lookupDictionary('yes!', dictionary)).toBe('exact');
+    expect(lookupDictionary('no', dictionary)).toBeUndefined();
+    expect(lookupDictionary('no', undefined)).toBeUndefined();
+  });
+});
+
+describe('radioFallback', () => {
+  it('checks on true words, leaves on false or blank ones', () => {
+    expect(['Yes', ' x ', '1', 'on'].map((v) => radioFallback(v))).toEqual(['check', 'check', 'check', 'check']);
+    expect(['No', '0', '', 'off'].map((v) => radioFallback(v))).toEqual(['leave', 'leave', 'leave', 'leave']);
+    expect(radioFallback('maybe')).toBeNull();
+  });
+
+  it('reads the word through the dictionary', () => {
+    expect(radioFallback('Agreed', { agreed: 'yes' })).toBe('check');
+  });
+});
+
+describe('describeUnmatched', () => {
+  it('lists up to five choices', () => {
+    expect(describeUnmatched('Texas', states)).toBe(
+      'No option matches "Texas"; choices: "Choose...", "California", "Colorado", "New York", "Germany"',
+    );
+    const many = [...states, { value: 'TX', label: '' }];
+    expect(describeUnmatched('Utah', many)).toMatch(/"Germany", \.\.\. \(6 options\)$/);
+    expect(describeUnmatched('Utah', [])).toBe('No option matches "Utah"');
+  });
+});
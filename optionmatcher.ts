@@ -0,0 +1,182 @@
+/**
+ * Matches a sheet value against the options a select, radio group or
+ * checkbox offers. Tried in order:
+ *
+ *   1. the mapping's dictionary (sheet value -> option value or label)
+ *   2. exact option value or label
+ *   3. normalised equality (case, accents, punctuation and spacing ignored)
+ *   4. a unique prefix match ("Calif" -> "California")
+ *   5. the closest label within a small edit distance ("Germnay" -> "Germany")
+ *
+ * Steps 3-5 are the fuzzy fallback and can be disabled per mapping. The
+ * matcher is DOM-free so the extension and the CLI runner share it.
+ */
+
+export interface OptionCandidate {
+  value: string;
+  label: string;
+}
+
+export type MatchStrategy = 'dictionary' | 'exact' | 'normalized' | 'prefix' | 'fuzzy';
+
+export interface OptionMatch {
+  option: OptionCandidate;
+  index: number;
+  strategy: MatchStrategy;
+}
+
+export interface MatchOptions {
+  /** Sheet value -> option value (or label). Keys are compared normalised. */
+  dictionary?: Record<string, string>;
+  /** Allow normalised, prefix and edit-distance matches. Defaults to true. */
+  fuzzy?: boolean;
+}
+
+/** Lower-cased, accent-free, punctuation collapsed to single spaces. */
+export function normalizeOptionText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance counting an adjacent swap as one edit ("Germnay"), giving
+ * up early once `max` is exceeded.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        curr[j] = Math.min(curr[j], before[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    before = prev;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Looks `value` up in a dictionary, exactly first and then normalised.
+ */
+export function lookupDictionary(
+  value: string,
+  dictionary: Record<string, string> | undefined,
+): string | undefined {
+  if (!dictionary) return undefined;
+  if (Object.prototype.hasOwnProperty.call(dictionary, value)) return dictionary[value];
+  const key = normalizeOptionText(value);
+  for (const [from, to] of Object.entries(dictionary)) {
+    if (normalizeOptionText(from) === key) return to;
+  }
+  return undefined;
+}
+
+function findExact(value: string, options: OptionCandidate[]): number {
+  const byValue = options.findIndex((o) => o.value === value);
+  return byValue !== -1 ? byValue : options.findIndex((o) => o.label.trim() === value.trim());
+}
+
+/**
+ * Best option for `value`, or `null` when nothing matches well enough.
+ * Ambiguous prefix or distance matches count as no match.
+ */
+export function matchOption(
+  value: string,
+  options: OptionCandidate[],
+  opts: MatchOptions = {},
+): OptionMatch | null {
+  const fuzzy = opts.fuzzy !== false;
+  const at = (index: number, strategy: MatchStrategy): OptionMatch | null =>
+    index === -1 ? null : { option: options[index], index, strategy };
+
+  const mapped = lookupDictionary(value, opts.dictionary);
+  if (mapped !== undefined) {
+    const hit = findExact(mapped, options);
+    if (hit !== -1) return at(hit, 'dictionary');
+    if (fuzzy) {
+      const key = normalizeOptionText(mapped);
+      const idx = options.findIndex(
+        (o) => normalizeOptionText(o.value) === key || normalizeOptionText(o.label) === key,
+      );
+      if (idx !== -1) return at(idx, 'dictionary');
+    }
+    /* A dictionary entry that names no option is a mapping bug; do not guess */
+    return null;
+  }
+
+  const exact = findExact(value, options);
+  if (exact !== -1) return at(exact, 'exact');
+  if (!fuzzy) return null;
+
+  const key = normalizeOptionText(value);
+  if (!key) return null;
+  const labels = options.map((o) => normalizeOptionText(o.label));
+  const values = options.map((o) => normalizeOptionText(o.value));
+
+  const normalized = options.findIndex((_, i) => labels[i] === key || values[i] === key);
+  if (normalized !== -1) return at(normalized, 'normalized');
+
+  const prefixed = options
+    .map((_, i) => i)
+    .filter((i) => labels[i].startsWith(key) || (key.length > 3 && values[i].startsWith(key)));
+  if (prefixed.length === 1) return at(prefixed[0], 'prefix');
+
+  const maxDistance = key.length < 4 ? 0 : key.length < 8 ? 1 : 2;
+  if (maxDistance === 0) return null;
+  let best = -1;
+  let bestDistance = maxDistance + 1;
+  let tied = false;
+  labels.forEach((label, i) => {
+    const d = Math.min(editDistance(key, label, maxDistance), editDistance(key, values[i], maxDistance));
+    if (d < bestDistance) {
+      best = i;
+      bestDistance = d;
+      tied = false;
+    } else if (d === bestDistance && d <= maxDistance) {
+      tied = true;
+    }
+  });
+  return best !== -1 && !tied ? at(best, 'fuzzy') : null;
+}
+
+const TRUE_WORDS = ['1', 'true', 'yes', 'on', 'y', 'x'];
+const FALSE_WORDS = ['', '0', 'false', 'no', 'off', 'n'];
+
+/**
+ * What to do with a radio whose group has no option matching `value`. A
+ * true word checks the mapped radio itself, a false or blank word leaves
+ * the group as it is (a radio cannot be unchecked), and anything else is
+ * unmatched (`null`). Every filler applies this one rule.
+ */
+export function radioFallback(
+  value: string,
+  dictionary?: Record<string, string>,
+): 'check' | 'leave' | null {
+  const word = (lookupDictionary(value, dictionary) ?? value).trim().toLowerCase();
+  if (TRUE_WORDS.includes(word)) return 'check';
+  if (FALSE_WORDS.includes(word)) return 'leave';
+  return null;
+}
+
+/** Message for a value no option matched, listing a few of the choices. */
+export function describeUnmatched(value: string, options: OptionCandidate[]): string {
+  const sample = options
+    .slice(0, 5)
+    .map((o) => JSON.stringify(o.label || o.value))
+    .join(', ');
+  const more = options.length > 5 ? `, ... (${options.length} options)` : '';
+  return `No option matches "${value}"${options.length ? `; choices: ${sample}${more}` : ''}`;
+}
@@ -1,11 +1,51 @@
-import React, { useState, useEffect, useRef, useCallback, MutableRefObject } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, MutableRefObject } from 'react';
 import ReactDOM from 'react-dom/client';
+import type { FillReport } from './contentscript.js';
+import { parseCsv } from './csvparser.js';
+import { describeForm, FormTarget, formTarget, ScannedForm } from './domscanner.js';
+import type { Row } from './formfillerrunner.js';
+import { describeProblems, TargetCheck } from './mappingcheck.js';
+import {
+  diffMappings,
+  getMappingForm,
+  getMappingUrls,
+  listMappingVersions,
+  Mapping,
+  MappingDiff,
+  MappingTarget,
+  MappingVersion,
+  resolveMappingForUrl,
+  restoreMappingVersion,
+  saveMapping,
+  setMappingForm,
+  setMappingUrls,
+  setMappingVault,
+} from './mappingengine.js';
+import {
+  MappingFileError,
+  MappingFormat,
+  mappingFormat,
+  parseMappingFile,
+  serializeMapping,
+} from './mappingfile.js';
+import { recordsToRows } from './rowrecord.js';
+import { parseRowSelection, previewSelection, RowPreview, RowSelection } from './rowselection.js';
+import SelectorVault from './selectorvault.js';
 
 // Define reusable types
 type WizardStep = 'scan' | 'map' | 'run';
 interface StepProps {
   onNext?: () => void;
   onPrev?: () => void;
+  /** Forms found by the last scan of the active tab */
+  forms?: ScannedForm[];
+  onScanned?: (forms: ScannedForm[]) => void;
+}
+
+/** Same form, whichever submit control is chosen */
+function sameForm(a: FormTarget, b: FormTarget): boolean {
+  const path = (f: FormTarget) => [...(f.framePath ?? []), '|', ...(f.shadowPath ?? []), '|', f.selector].join(' ');
+  return path(a) === path(b);
 }
 
 /**
@@ -77,7 +117,7 @@ function useKeyboardNavigation(
 /* UI ? Step Components                           */
 /* -------------------------------------------------------------------------- */
 
-const ScanStep: React.FC<StepProps> = ({ onNext }) => {
+const ScanStep: React.FC<StepProps> = ({ onNext, onScanned }) => {
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const isMounted = useIsMounted();
@@ -85,9 +125,11 @@ const ScanStep: React.FC<StepProps> = ({ onNext }) => {
   const startScan = async () => {
     try {
       setIsScanning(true);
-      // TODO: actual scanning logic (message to content script, etc.)
-      await new Promise((r) => setTimeout(r, 1000));
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id === undefined) throw new Error('No active tab');
+      const forms: ScannedForm[] = await chrome.tabs.sendMessage(tab.id, { command: 'scan' });
       if (!isMounted.current) return;
+      onScanned?.(forms);
       onNext?.();
     } catch (err) {
       if (!isMounted.current) return;
@@ -118,22 +160,390 @@ const ScanStep: React.FC<StepProps> = ({ onNext }) => {
   );
 };
 
-const MapStep: React.FC<StepProps> = ({ onNext, onPrev }) => {
-  const [mappings, setMappings] = useState<Record<string, string>>({});
+const EXPORT_FORMATS: MappingFormat[] = ['csv', 'yaml', 'json'];
+
+// Saved mappings are encrypted with the master key; one vault per popup session
+const vault = new SelectorVault(localStorage);
+
+const VaultUnlock: React.FC<{ onUnlocked: (migrated: number) => void }> = ({ onUnlocked }) => {
+  const [masterKey, setMasterKey] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isMounted = useIsMounted();
+
+  const unlock = async () => {
+    try {
+      setBusy(true);
+      await vault.initVault(masterKey);
+      const migrated = await setMappingVault(vault);
+      if (isMounted.current) onUnlocked(migrated.length);
+    } catch (err) {
+      if (isMounted.current) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (isMounted.current) setBusy(false);
+    }
+  };
+
+  return (
+    <div className="form-group vault-unlock">
+      <label htmlFor="vault-key">Master key (unlocks saved mappings)</label>
+      <input
+        id="vault-key"
+        type="password"
+        value={masterKey}
+        autoComplete="current-password"
+        onChange={(e) => setMasterKey(e.target.value)}
+      />
+      {error && <div className="alert alert-error">{error}</div>}
+      <button className="btn primary" disabled={busy || !masterKey} onClick={unlock}>
+        {busy ? 'Unlocking...' : 'Unlock'}
+      </button>
+    </div>
+  );
+};
+
+/** Offers `text` as a file download */
+function download(fileName: string, text: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function targetLabel(target: MappingTarget): string {
+  return typeof target === 'string' ? target : target.column ?? target.template ?? '';
+}
+
+/** One line per difference, e.g. `~ #email (transform)` */
+function describeDiff(diff: MappingDiff): string[] {
+  return [
+    ...diff.added.map((a) => `+ ${a.selector} -> ${targetLabel(a.target)}`),
+    ...diff.removed.map((r) => `- ${r.selector}`),
+    ...diff.changed.map((c) => `~ ${c.selector} (${c.fields.join(', ')})`),
+  ];
+}
+
+interface HistoryPanelProps {
+  mappingId: string;
+  current: Mapping;
+  author: string;
+  /** Bumped after every save so the list reloads */
+  revision: number;
+  onRestore: (mapping: Mapping) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  mappingId,
+  current,
+  author,
+  revision,
+  onRestore,
+}) => {
+  const [versions, setVersions] = useState<MappingVersion[]>([]);
+  const [compared, setCompared] = useState<{ version: number; lines: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isMounted = useIsMounted();
+
+  useEffect(() => {
+    setCompared(null);
+    listMappingVersions(mappingId).then(
+      (list) => {
+        if (isMounted.current) setVersions(list);
+      },
+      (err) => {
+        if (isMounted.current) setError(String(err));
+      },
+    );
+  }, [mappingId, revision, isMounted]);
+
+  const restore = async (version: number) => {
+    try {
+      const mapping = await restoreMappingVersion(mappingId, version, { author });
+      if (isMounted.current) onRestore(mapping);
+    } catch (err) {
+      if (isMounted.current) setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="mapping-history">
+      <h3>History</h3>
+      {error && <div className="alert alert-error">{error}</div>}
+      <ul>
+        {versions.map((v) => (
+          <li key={v.version}>
+            <strong>v{v.version}</strong> {v.author}, {new Date(v.savedAt).toLocaleString()}
+            {v.comment && <em> ({v.comment})</em>}{' '}
+            <button
+              className="btn secondary"
+              onClick={() =>
+                setCompared({ version: v.version, lines: describeDiff(diffMappings(v.mapping, current)) })
+              }
+            >
+              Compare
+            </button>
+            <button className="btn secondary" onClick={() => restore(v.version)}>
+              Restore
+            </button>
+          </li>
+        ))}
+      </ul>
+      {compared && (
+        <pre className="mapping-diff">
+          {`v${compared.version} -> current\n`}
+          {compared.lines.length ? compared.lines.join('\n') : 'No differences'}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+const MapStep: React.FC<StepProps> = ({ onNext, onPrev, forms = [] }) => {
+  const [mappings, setMappings] = useState<Mapping>({});
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [mappingId, setMappingId] = useState('default');
+  const [author, setAuthor] = useState('');
+  const [comment, setComment] = useState('');
+  const [saveStatus, setSaveStatus] = useState('');
+  const [revision, setRevision] = useState(0);
+  const [urlPatterns, setUrlPatterns] = useState('');
+  const [form, setForm] = useState<FormTarget | null>(null);
+  const [unlocked, setUnlocked] = useState(vault.isUnlocked());
+  const [checking, setChecking] = useState(false);
+  const [checkResult, setCheckResult] = useState<{ problems: string[]; total: number } | null>(null);
+  const isMounted = useIsMounted();
+
+  useEffect(() => {
+    if (!unlocked) return;
+    getMappingUrls(mappingId.trim()).then((patterns) => {
+      if (isMounted.current) setUrlPatterns(patterns.join('\n'));
+    });
+    getMappingForm(mappingId.trim()).then((saved) => {
+      if (isMounted.current) setForm(saved);
+    });
+  }, [mappingId, unlocked, isMounted]);
+
+  // -1 when no form is chosen or the saved one was not found by the scan
+  const formIndex = form ? forms.findIndex((f) => sameForm(formTarget(f), form)) : -1;
+  const fieldCount =
+    formIndex >= 0 ? forms[formIndex].fields.length : forms.reduce((n, f) => n + f.fields.length, 0);
+  const submitCandidate = formIndex >= 0 ? forms[formIndex].submits[0]?.selector : undefined;
+
+  const chooseForm = (value: string) => {
+    const picked = value === '' ? undefined : forms[Number(value)];
+    if (picked) setForm(formTarget(picked));
+    else if (value === '') setForm(null);
+  };
+
+  const toggleSubmit = (checked: boolean) => {
+    if (form) setForm({ ...form, submit: checked ? submitCandidate : undefined });
+  };
 
   useKeyboardNavigation(onNext, onPrev);
 
+  // Same files the CLI reads with --mapping
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const mapping = await parseMappingFile(await file.text(), mappingFormat(file.name), file.name);
+      if (!isMounted.current) return;
+      setMappings(mapping);
+      setImportErrors([]);
+    } catch (err) {
+      if (!isMounted.current) return;
+      setImportErrors(
+        err instanceof MappingFileError
+          ? err.message.split('\n')
+          : [err instanceof Error ? err.message : String(err)],
+      );
+    }
+  };
+
+  // Resolves every selector in the active tab before anything is filled
+  const checkOnPage = async () => {
+    try {
+      setChecking(true);
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id === undefined) throw new Error('No active tab');
+      const checks: TargetCheck[] = await chrome.tabs.sendMessage(tab.id, {
+        command: 'check',
+        mapping: mappings,
+      });
+      if (!isMounted.current) return;
+      setCheckResult({ problems: describeProblems(checks), total: checks.length });
+    } catch (err) {
+      if (!isMounted.current) return;
+      setCheckResult({ problems: [err instanceof Error ? err.message : String(err)], total: 0 });
+    } finally {
+      if (isMounted.current) setChecking(false);
+    }
+  };
+
+  const save = async () => {
+    try {
+      await saveMapping(mappingId.trim(), mappings, { author, comment });
+      await setMappingUrls(mappingId.trim(), urlPatterns.split('\n'));
+      await setMappingForm(mappingId.trim(), form);
+      if (!isMounted.current) return;
+      setComment('');
+      setSaveStatus('Saved');
+      setRevision((r) => r + 1);
+    } catch (err) {
+      if (isMounted.current) setSaveStatus(`Save failed: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const restored = (mapping: Mapping) => {
+    setMappings(mapping);
+    setSaveStatus('Restored');
+    setRevision((r) => r + 1);
+  };
+
   return (
     <section className="step map-step">
       <h2>2. Map Columns</h2>
       <p>
-        Map each detected input to a column in your Google Sheet. Use keyboard
+        Map each of the {fieldCount} detected inputs to a column in your Google Sheet. Use keyboard
         ?/? to navigate.
       </p>
 
       {/* Placeholder mapping UI */}
       <pre className="mapping-preview">{JSON.stringify(mappings, null, 2)}</pre>
 
+      <div className="form-group">
+        <label htmlFor="mapping-import">Import mapping (CSV, YAML or JSON)</label>
+        <input
+          id="mapping-import"
+          type="file"
+          accept=".csv,.yaml,.yml,.json"
+          onChange={importFile}
+        />
+      </div>
+      {importErrors.length > 0 && (
+        <div className="alert alert-error" role="alert">
+          <ul>
+            {importErrors.map((msg) => (
+              <li key={msg}>{msg}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="actions">
+        {EXPORT_FORMATS.map((format) => (
+          <button
+            key={format}
+            className="btn secondary"
+            disabled={Object.keys(mappings).length === 0}
+            onClick={() => download(`mapping.${format}`, serializeMapping(mappings, format))}
+          >
+            Export {format.toUpperCase()}
+          </button>
+        ))}
+        <button
+          className="btn secondary"
+          disabled={checking || Object.keys(mappings).length === 0}
+          onClick={checkOnPage}
+        >
+          {checking ? 'Checking...' : 'Check on page'}
+        </button>
+      </div>
+      {checkResult &&
+        (checkResult.problems.length === 0 ? (
+          <div className="alert alert-success">All {checkResult.total} selector(s) found on this page.</div>
+        ) : (
+          <div className="alert alert-error" role="alert">
+            <ul>
+              {checkResult.problems.map((msg) => (
+                <li key={msg}>{msg}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+      {!unlocked && (
+        <VaultUnlock
+          onUnlocked={(migrated) => {
+            setUnlocked(true);
+            if (migrated) setSaveStatus(`Encrypted ${migrated} previously saved item(s)`);
+          }}
+        />
+      )}
+      <div className="form-group">
+        <label htmlFor="mapping-id">Mapping name</label>
+        <input
+          id="mapping-id"
+          type="text"
+          value={mappingId}
+          onChange={(e) => setMappingId(e.target.value)}
+        />
+        <label htmlFor="mapping-author">Your name</label>
+        <input
+          id="mapping-author"
+          type="text"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+        />
+        <label htmlFor="mapping-comment">Change note</label>
+        <input
+          id="mapping-comment"
+          type="text"
+          value={comment}
+          placeholder="e.g. fixed country dropdown"
+          onChange={(e) => setComment(e.target.value)}
+        />
+        <label htmlFor="mapping-urls">Use on pages (one URL pattern per line)</label>
+        <textarea
+          id="mapping-urls"
+          value={urlPatterns}
+          placeholder="shop.example.com/checkout/**"
+          onChange={(e) => setUrlPatterns(e.target.value)}
+        />
+        <label htmlFor="mapping-form">Fill only inside</label>
+        <select id="mapping-form" value={form ? String(formIndex) : ''} onChange={(e) => chooseForm(e.target.value)}>
+          <option value="">The whole page</option>
+          {form && formIndex === -1 && <option value="-1">{form.selector} (saved, not on this page)</option>}
+          {forms.map((f, i) => (
+            <option key={i} value={i}>
+              {describeForm(f)}
+            </option>
+          ))}
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={!!form?.submit}
+            disabled={!form || (!form.submit && !submitCandidate)}
+            onChange={(e) => toggleSubmit(e.target.checked)}
+          />{' '}
+          Submit the form after filling
+        </label>
+      </div>
+      <div className="actions">
+        <button
+          className="btn primary"
+          disabled={!unlocked || !mappingId.trim() || Object.keys(mappings).length === 0}
+          onClick={save}
+        >
+          Save
+        </button>
+        {saveStatus && <span className="status">{saveStatus}</span>}
+      </div>
+      {unlocked && (
+        <HistoryPanel
+          mappingId={mappingId.trim()}
+          current={mappings}
+          author={author}
+          revision={revision}
+          onRestore={restored}
+        />
+      )}
+
       <div className="actions">
         <button onClick={onPrev} className="btn secondary">
           ? Back
@@ -150,22 +560,125 @@ const MapStep: React.FC<StepProps> = ({ onNext, onPrev }) => {
   );
 };
 
+// Rows shown under the selection; the run itself processes every match
+const PREVIEW_LIMIT = 10;
+const ALL_ROWS: RowSelection = { matches: () => true, describe: () => 'All rows' };
+
+/** Rows of a CSV (TSV by extension) file, numbered like the CLI's csv source */
+async function readCsvRows(file: File): Promise<Row[]> {
+  const text = await file.text();
+  const chunks = (async function* () {
+    yield text;
+  })();
+  const rows: Row[] = [];
+  const delimiter = /\.tsv$/i.test(file.name) ? '\t' : ',';
+  for await (const row of recordsToRows(parseCsv(chunks, delimiter), 1, file.name)) rows.push(row);
+  return rows;
+}
+
+/** Navigates the tab to `url` and resolves once it finished loading */
+function loadInTab(tabId: number, url: string): Promise<void> {
+  return new Promise((resolve) => {
+    const listener = (id: number, info: { status?: string }) => {
+      if (id !== tabId || info.status !== 'complete') return;
+      chrome.tabs.onUpdated.removeListener(listener);
+      resolve();
+    };
+    chrome.tabs.onUpdated.addListener(listener);
+    chrome.tabs.update(tabId, { url });
+  });
+}
+
 const RunStep: React.FC<StepProps> = ({ onPrev }) => {
   const [running, setRunning] = useState(false);
   const [status, setStatus] = useState<string>('');
+  const [rowsExpr, setRowsExpr] = useState('');
+  const [rows, setRows] = useState<Row[] | null>(null);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RowPreview | null>(null);
   const isMounted = useIsMounted();
 
+  // Parse on every keystroke so the user sees what will run before starting
+  const selection = useMemo(() => {
+    if (!rowsExpr.trim()) return { parsed: null, summary: 'All rows', error: null };
+    try {
+      const parsed = parseRowSelection(rowsExpr);
+      return { parsed, summary: parsed.describe(), error: null };
+    } catch (err) {
+      return { parsed: null, summary: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [rowsExpr]);
+
+  // Same preview the CLI prints for --preview, over the loaded rows
+  useEffect(() => {
+    if (!rows || selection.error) {
+      setPreview(null);
+      return;
+    }
+    let current = true;
+    previewSelection(rows, selection.parsed ?? ALL_ROWS, PREVIEW_LIMIT).then((result) => {
+      if (current && isMounted.current) setPreview(result);
+    });
+    return () => {
+      current = false;
+    };
+  }, [rows, selection, isMounted]);
+
+  const loadData = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = await readCsvRows(file);
+      if (!isMounted.current) return;
+      setRows(loaded);
+      setDataError(null);
+    } catch (err) {
+      if (!isMounted.current) return;
+      setRows(null);
+      setDataError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   const startRun = async () => {
+    if (!rows) return;
+    const selected = rows.filter((row) => (selection.parsed ?? ALL_ROWS).matches(row));
     try {
       setRunning(true);
-      setStatus('Filling forms?');
-      // TODO: actual fill logic
-      await new Promise((r) => setTimeout(r, 1500));
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id === undefined) throw new Error('No active tab');
+      let failed = 0;
+      let formUrl = '';
+      let submitted = false;
+      for (const [i, row] of selected.entries()) {
+        if (!isMounted.current) return;
+        setStatus(`Filling row ${row.id} (${i + 1} of ${selected.length})...`);
+        formUrl ||= (await chrome.tabs.get(tab.id)).url ?? '';
+        const url = row.url ?? formUrl;
+        // A submitted form has moved on, so reopen it for the next row
+        if (row.url || submitted) await loadInTab(tab.id, url);
+        // Resolved here because the vault is unlocked in the popup, not in the page
+        const resolved = await resolveMappingForUrl(url);
+        if (!resolved) throw new Error(`No saved mapping matches ${url}; add a URL pattern in step 2.`);
+        const report: FillReport | undefined = await chrome.tabs.sendMessage(tab.id, {
+          command: 'fill',
+          mapping: resolved.mapping,
+          form: resolved.form,
+          rowData: row.data,
+          context: { rowNumber: row.id },
+        });
+        if (!report?.success) failed++;
+        submitted = Boolean(report?.submitted);
+      }
       if (!isMounted.current) return;
-      setStatus('Completed successfully ?');
+      setStatus(
+        failed
+          ? `${failed} of ${selected.length} row(s) failed`
+          : `Filled ${selected.length} row(s) successfully`,
+      );
     } catch (err) {
       if (!isMounted.current) return;
-      setStatus(`Failed: ${err}`);
+      setStatus(`Failed: ${err instanceof Error ? err.message : err}`);
     } finally {
       if (isMounted.current) setRunning(false);
     }
@@ -178,13 +691,56 @@ const RunStep: React.FC<StepProps> = ({ onPrev }) => {
       <h2>3. Run</h2>
       <p>Execute the mapped filling procedure on the active tab.</p>
 
+      <div className="form-group">
+        <label htmlFor="run-data">Data (CSV export of the sheet)</label>
+        <input id="run-data" type="file" accept=".csv,.tsv" onChange={loadData} disabled={running} />
+      </div>
+      {dataError && (
+        <div className="alert alert-error" role="alert">
+          {dataError}
+        </div>
+      )}
+
+      <div className="form-group">
+        <label htmlFor="row-selection">Rows (range or filter)</label>
+        <input
+          id="row-selection"
+          type="text"
+          value={rowsExpr}
+          placeholder="e.g. 2-500 AND status != done"
+          onChange={(e) => setRowsExpr(e.target.value)}
+          aria-describedby="row-selection-preview"
+          aria-invalid={selection.error ? true : undefined}
+          disabled={running}
+        />
+      </div>
+      <div
+        id="row-selection-preview"
+        className={`notice ${selection.error ? 'error' : 'info'}`}
+        role="status"
+      >
+        {selection.error ?? selection.summary}
+        {preview && (
+          <>
+            {' '}
+            &middot; {preview.matched} of {preview.scanned} row(s) match
+            {preview.rows.length > 0 &&
+              `: ${preview.rows.map((row) => row.id).join(', ')}${preview.matched > preview.rows.length ? ', ...' : ''}`}
+          </>
+        )}
+      </div>
+
       {status && <div className="status">{status}</div>}
 
       <div className="actions">
         <button onClick={onPrev} className="btn secondary" disabled={running}>
           ? Back
         </button>
-        <button onClick={startRun} className="btn success" disabled={running}>
+        <button
+          onClick={startRun}
+          className="btn success"
+          disabled={running || !rows || selection.error !== null || preview?.matched === 0}
+        >
           {running ? 'Running?' : 'Start'}
         </button>
       </div>
@@ -198,6 +754,7 @@ const RunStep: React.FC<StepProps> = ({ onPrev }) => {
 
 const App: React.FC = () => {
   const [step, setStep] = useState<WizardStep>('scan');
+  const [forms, setForms] = useState<ScannedForm[]>([]);
 
   const next = useCallback(() => {
     setStep((prev) => (prev === 'scan' ? 'map' : prev === 'map' ? 'run' : 'run'));
@@ -209,8 +766,8 @@ const App: React.FC = () => {
 
   return (
     <div className="popup-app">
-      {step === 'scan' && <ScanStep onNext={next} />}
-      {step === 'map' && <MapStep onNext={next} onPrev={prev} />}
+      {step === 'scan' && <ScanStep onNext={next} onScanned={setForms} />}
+      {step === 'map' && <MapStep onNext={next} onPrev={prev} forms={forms} />}
       {step === 'run' && <RunStep onPrev={prev} />}
     </div>
   );
@@ -0,0 +1,47 @@
+import type { Row } from './formfillerrunner.js';
+
+/**
+ * Turning header-first records into `Row`s. Kept free of Node and Google
+ * imports so the popup can use it on a file the user picks.
+ */
+
+/**
+ * Builds a `Row` from a header list and one record of cells. Blank headers
+ * are dropped; a `url` column becomes the row's target URL.
+ */
+export function toRow(id: number, headers: string[], cells: unknown[]): Row {
+  const data: Record<string, string> = {};
+  headers.forEach((header, col) => {
+    if (header) data[header] = String(cells[col] ?? '');
+  });
+  return { id, data, url: data.url || undefined };
+}
+
+export function isBlankRecord(cells: unknown[]): boolean {
+  return cells.every((c) => c === '' || c === null || c === undefined);
+}
+
+/**
+ * Reads the header from record `headerRow` (1-based) and yields every
+ * non-blank record after it, numbered by its record position. Throws when
+ * the stream ends before the header; `source` names the data in that error.
+ */
+export async function* recordsToRows(
+  records: AsyncIterable<string[]>,
+  headerRow: number,
+  source: string,
+): AsyncIterable<Row> {
+  let headers: string[] | null = null;
+  let recordNo = 0;
+  for await (const cells of records) {
+    recordNo++;
+    if (recordNo < headerRow) continue;
+    if (!headers) {
+      headers = cells.map((h) => h.trim());
+      continue;
+    }
+    if (isBlankRecord(cells)) continue;
+    yield toRow(recordNo, headers, cells);
+  }
+  if (!headers) throw new Error(`${source} has no header row ${headerRow}.`);
+}
@@ -0,0 +1,84 @@
+import type { Row } from './formfillerrunner.js';
+import { parseRowSelection, previewSelection, RowSelectionError } from './rowselection.js';
+
+function row(id: number, data: Record<string, string> = {}): Row {
+  return { id, data };
+}
+
+function ids(expression: string, rows: Row[]): (string | number)[] {
+  const selection = parseRowSelection(expression);
+  return rows.filter((r) => selection.matches(r)).map((r) => r.id);
+}
+
+const people = [
+  row(2, { name: 'Ada', country: 'US', age: '36', status: 'done', city: 'New York' }),
+  row(3, { name: 'Bo', country: 'CA', age: '9', status: '', city: 'Toronto' }),
+  row(4, { name: 'Cy', country: 'us', age: '41', status: 'todo', city: 'Boston' }),
+  row(5, { name: 'Di', country: 'DE', age: '', status: 'todo', city: 'Berlin' }),
+];
+
+describe('parseRowSelection', () => {
+  it('selects ranges, lists and open ends', () => {
+    expect(ids('3-4', people)).toEqual([3, 4]);
+    expect(ids('2,5', people)).toEqual([2, 5]);
+    expect(ids('4-', people)).toEqual([4, 5]);
+    expect(ids('-3', people)).toEqual([2, 3]);
+    expect(ids('2, 4-5', people)).toEqual([2, 4, 5]);
+  });
+
+  it('compares columns case-insensitively', () => {
+    expect(ids('country = US', people)).toEqual([2, 4]);
+    expect(ids('status != done', people)).toEqual([3, 4, 5]);
+    expect(ids('name ~ d', people)).toEqual([2, 5]);
+    expect(ids('name !~ d', people)).toEqual([3, 4]);
+  });
+
+  it('compares numbers numerically', () => {
+    expect(ids('age > 10', people)).toEqual([2, 4]);
+    expect(ids('age <= 36 AND age IS NOT EMPTY', people)).toEqual([2, 3]);
+  });
+
+  it('tests emptiness', () => {
+    expect(ids('status IS EMPTY', people)).toEqual([3]);
+    expect(ids('age is not empty', people)).toEqual([2, 3, 4]);
+    expect(ids('missing IS EMPTY', people)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('combines terms with AND, OR, NOT and parentheses', () => {
+    expect(ids('2-4 AND (country = US OR country = CA) AND NOT status = done', people)).toEqual([3, 4]);
+    expect(ids('country = DE OR 2', people)).toEqual([2, 5]);
+  });
+
+  it('reads multi-word and quoted values', () => {
+    expect(ids('city = New York AND 2-', people)).toEqual([2]);
+    expect(ids("city = 'new york'", people)).toEqual([2]);
+  });
+
+  it('describes the normalised expression', () => {
+    expect(parseRowSelection('2-500 and (country = US or country = CA)').describe()).toBe(
+      'rows 2-500 AND (country = "US" OR country = "CA")',
+    );
+    expect(parseRowSelection('not notes is empty').describe()).toBe('NOT notes IS EMPTY');
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(() => parseRowSelection('')).toThrow(RowSelectionError);
+    expect(() => parseRowSelection('5-2')).toThrow('Range "5-2" ends before it starts (at position 1)');
+    expect(() => parseRowSelection('(2-3')).toThrow('Expected ")"');
+    expect(() => parseRowSelection('status =')).toThrow('Missing value after "status ="');
+    expect(() => parseRowSelection("name = 'Ada")).toThrow('Unterminated quote');
+    expect(() => parseRowSelection('status done')).toThrow('Expected an operator after "status"');
+  });
+});
+
+describe('previewSelection', () => {
+  it('counts every match but keeps at most `limit` rows', async () => {
+    async function* stream() {
+      yield* people;
+    }
+    const preview = await previewSelection(stream(), parseRowSelection('3-'), 2);
+    expect(preview.matched).toBe(3);
+    expect(preview.scanned).toBe(4);
+    expect(preview.rows.map((r) => r.id)).toEqual([3, 4]);
+  });
+});
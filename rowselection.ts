@@ -0,0 +1,371 @@
+import type { Row } from './formfillerrunner.js';
+
+/**
+ * Row selection language shared by the CLI (`--rows`) and the popup.
+ *
+ *   2-500                          inclusive range of row numbers
+ *   2,5,9  10-  -20                lists and open-ended ranges
+ *   status != done                 column predicate (=, !=, ~, !~, <, <=, >, >=)
+ *   notes IS EMPTY                 emptiness test (IS NOT EMPTY)
+ *   2-500 AND (country = US OR country = CA) AND NOT status = done
+ *
+ * Row numbers are the ids row sources assign: the sheet row or CSV record
+ * number, and for JSON the item counted from 2. Comparisons are
+ * case-insensitive; `<`/`>` compare numerically when both sides are
+ * numbers. Values with spaces can be quoted.
+ */
+export interface RowSelection {
+  matches(row: Row): boolean;
+  /** Normalised, human-readable form of the expression. */
+  describe(): string;
+}
+
+export class RowSelectionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'RowSelectionError';
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* AST                                                                        */
+/* -------------------------------------------------------------------------- */
+
+type Operator = '=' | '!=' | '~' | '!~' | '<' | '<=' | '>' | '>=';
+
+type Node =
+  | { kind: 'and' | 'or'; left: Node; right: Node }
+  | { kind: 'not'; operand: Node }
+  | { kind: 'ranges'; ranges: [number, number][] }
+  | { kind: 'compare'; column: string; op: Operator; value: string }
+  | { kind: 'empty'; column: string; negated: boolean };
+
+/* -------------------------------------------------------------------------- */
+/* Tokenizer                                                                  */
+/* -------------------------------------------------------------------------- */
+
+type TokenType = 'word' | 'string' | 'op' | 'lparen' | 'rparen' | 'comma' | 'range';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  pos: number;
+}
+
+const OPERATORS: Operator[] = ['!=', '!~', '<=', '>=', '=', '~', '<', '>'];
+const RANGE_RE = /^(\d+)?\s*-\s*(\d+)?|^\d+/;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({
+        type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma',
+        text: ch,
+        pos: i,
+      });
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let j = i + 1;
+      let text = '';
+      while (j < input.length && input[j] !== ch) {
+        if (input[j] === '\\' && j + 1 < input.length) j++;
+        text += input[j++];
+      }
+      if (j >= input.length) throw new RowSelectionError('Unterminated quote', i);
+      tokens.push({ type: 'string', text, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => input.startsWith(o, i));
+    if (op) {
+      tokens.push({ type: 'op', text: op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    /* Ranges only where a term may start, so `age > 5-3`-style values stay words */
+    const prev = tokens[tokens.length - 1];
+    const termStart =
+      !prev || prev.type === 'lparen' || prev.type === 'comma' || isKeyword(prev, 'AND', 'OR', 'NOT');
+    const range = termStart ? RANGE_RE.exec(input.slice(i)) : null;
+    if (range && range[0].trim() !== '-' && /^[\s,()]|^$/.test(input.slice(i + range[0].length))) {
+      tokens.push({ type: 'range', text: range[0].replace(/\s+/g, ''), pos: i });
+      i += range[0].length;
+      continue;
+    }
+
+    let j = i;
+    while (j < input.length && !/[\s(),"'`!=~<>]/.test(input[j])) j++;
+    if (j === i) throw new RowSelectionError(`Unexpected character "${ch}"`, i);
+    tokens.push({ type: 'word', text: input.slice(i, j), pos: i });
+    i = j;
+  }
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, ...words: string[]): boolean {
+  return !!token && token.type === 'word' && words.includes(token.text.toUpperCase());
+}
+
+/* -------------------------------------------------------------------------- */
+/* Parser (recursive descent)                                                 */
+/* -------------------------------------------------------------------------- */
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): Node {
+    if (this.tokens.length === 0) throw new RowSelectionError('Empty selection', 0);
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) throw new RowSelectionError(`Unexpected "${extra.text}"`, extra.pos);
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (isKeyword(this.peek(), 'OR')) {
+      this.index++;
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseTerm();
+    while (isKeyword(this.peek(), 'AND')) {
+      this.index++;
+      left = { kind: 'and', left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  private parseTerm(): Node {
+    const token = this.next('a range, predicate or "("');
+
+    if (isKeyword(token, 'NOT')) {
+      return { kind: 'not', operand: this.parseTerm() };
+    }
+    if (token.type === 'lparen') {
+      const inner = this.parseOr();
+      const close = this.next('")"');
+      if (close.type !== 'rparen') throw new RowSelectionError('Expected ")"', close.pos);
+      return inner;
+    }
+    if (token.type === 'range') {
+      const ranges = [parseRange(token)];
+      while (this.peek()?.type === 'comma') {
+        this.index++;
+        const nextRange = this.next('a row range');
+        if (nextRange.type !== 'range') {
+          throw new RowSelectionError('Expected a row number or range', nextRange.pos);
+        }
+        ranges.push(parseRange(nextRange));
+      }
+      return { kind: 'ranges', ranges };
+    }
+    if (token.type === 'word' || token.type === 'string') {
+      return this.parsePredicate(token.text);
+    }
+    throw new RowSelectionError(`Unexpected "${token.text}"`, token.pos);
+  }
+
+  private parsePredicate(column: string): Node {
+    const token = this.next(`an operator after "${column}"`);
+
+    if (isKeyword(token, 'IS')) {
+      let negated = false;
+      if (isKeyword(this.peek(), 'NOT')) {
+        negated = true;
+        this.index++;
+      }
+      const empty = this.next('EMPTY');
+      if (!isKeyword(empty, 'EMPTY')) throw new RowSelectionError('Expected EMPTY', empty.pos);
+      return { kind: 'empty', column, negated };
+    }
+
+    if (token.type !== 'op') {
+      throw new RowSelectionError(`Expected an operator after "${column}"`, token.pos);
+    }
+
+    /* Unquoted values may span several words: `city = New York AND ...` */
+    const words: string[] = [];
+    let quoted: string | null = null;
+    while (this.peek() && !isKeyword(this.peek(), 'AND', 'OR') && this.peek()!.type !== 'rparen') {
+      const part = this.tokens[this.index++];
+      if (part.type === 'string' && words.length === 0 && quoted === null) {
+        quoted = part.text;
+        break;
+      }
+      if (part.type !== 'word' && part.type !== 'range') {
+        throw new RowSelectionError(`Unexpected "${part.text}" in value`, part.pos);
+      }
+      words.push(part.text);
+    }
+    if (quoted === null && words.length === 0) {
+      throw new RowSelectionError(`Missing value after "${column} ${token.text}"`, token.pos);
+    }
+    return {
+      kind: 'compare',
+      column,
+      op: token.text as Operator,
+      value: quoted ?? words.join(' '),
+    };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new RowSelectionError(`Expected ${expected}`, this.length);
+    return token;
+  }
+}
+
+function parseRange(token: Token): [number, number] {
+  const [fromText, toText] = token.text.includes('-')
+    ? token.text.split('-')
+    : [token.text, token.text];
+  const from = fromText ? Number(fromText) : 1;
+  const to = toText ? Number(toText) : Infinity;
+  if (from > to) {
+    throw new RowSelectionError(`Range "${token.text}" ends before it starts`, token.pos);
+  }
+  return [from, to];
+}
+
+/* -------------------------------------------------------------------------- */
+/* Evaluation                                                                 */
+/* -------------------------------------------------------------------------- */
+
+function toNumber(value: string): number | null {
+  if (value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function compare(cell: string, op: Operator, value: string): boolean {
+  const a = cell.trim().toLowerCase();
+  const b = value.trim().toLowerCase();
+  switch (op) {
+    case '=':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '~':
+      return a.includes(b);
+    case '!~':
+      return !a.includes(b);
+    default: {
+      const na = toNumber(a);
+      const nb = toNumber(b);
+      const diff = na !== null && nb !== null ? na - nb : a.localeCompare(b);
+      if (op === '<') return diff < 0;
+      if (op === '<=') return diff <= 0;
+      if (op === '>') return diff > 0;
+      return diff >= 0;
+    }
+  }
+}
+
+function evaluate(node: Node, row: Row): boolean {
+  switch (node.kind) {
+    case 'and':
+      return evaluate(node.left, row) && evaluate(node.right, row);
+    case 'or':
+      return evaluate(node.left, row) || evaluate(node.right, row);
+    case 'not':
+      return !evaluate(node.operand, row);
+    case 'ranges': {
+      const id = Number(row.id);
+      return node.ranges.some(([from, to]) => id >= from && id <= to);
+    }
+    case 'compare':
+      return compare(row.data[node.column] ?? '', node.op, node.value);
+    case 'empty': {
+      const empty = (row.data[node.column] ?? '').trim() === '';
+      return node.negated ? !empty : empty;
+    }
+  }
+}
+
+function format(node: Node, parent?: Node['kind']): string {
+  switch (node.kind) {
+    case 'and':
+    case 'or': {
+      const text = `${format(node.left, node.kind)} ${node.kind.toUpperCase()} ${format(node.right, node.kind)}`;
+      return parent && parent !== node.kind ? `(${text})` : text;
+    }
+    case 'not':
+      return `NOT ${format(node.operand, 'not')}`;
+    case 'ranges':
+      return `rows ${node.ranges
+        .map(([from, to]) =>
+          from === to ? `${from}` : to === Infinity ? `${from}-` : from === 1 ? `-${to}` : `${from}-${to}`,
+        )
+        .join(',')}`;
+    case 'compare':
+      return `${node.column} ${node.op} ${JSON.stringify(node.value)}`;
+    case 'empty':
+      return `${node.column} IS ${node.negated ? 'NOT ' : ''}EMPTY`;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Public API                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parses a selection expression. Throws `RowSelectionError` with the
+ * offending position on syntax errors.
+ */
+export function parseRowSelection(expression: string): RowSelection {
+  const ast = new Parser(tokenize(expression), expression.length).parse();
+  return {
+    matches: (row) => evaluate(ast, row),
+    describe: () => format(ast),
+  };
+}
+
+export interface RowPreview {
+  /** Rows that matched, up to `limit`. */
+  rows: Row[];
+  /** Total matches among the rows scanned. */
+  matched: number;
+  scanned: number;
+}
+
+/**
+ * Runs a selection over a row stream without filling anything, so users can
+ * check what a job would touch.
+ */
+export async function previewSelection(
+  rows: Iterable<Row> | AsyncIterable<Row>,
+  selection: RowSelection,
+  limit = 20,
+): Promise<RowPreview> {
+  const preview: RowPreview = { rows: [], matched: 0, scanned: 0 };
+  for await (const row of rows) {
+    preview.scanned++;
+    if (!selection.matches(row)) continue;
+    preview.matched++;
+    if (preview.rows.length < limit) preview.rows.push(row);
+  }
+  return preview;
+}
@@ -0,0 +1,109 @@
+import { googleSheetsService, GoogleSheetsService } from './googlesheetsservice.js';
+import type { Row } from './formfillerrunner.js';
+import { CsvRowSource } from './csvrowsource.js';
+import { JsonFormat, JsonRowSource } from './jsonrowsource.js';
+
+export { isBlankRecord, toRow } from './rowrecord.js';
+
+/**
+ * `[data_source]` settings, camel-cased from default.ini.
+ */
+export interface DataSourceConfig {
+  type: string;
+  spreadsheetId?: string;
+  worksheet?: string;
+  csvPath?: string;
+  csvDelimiter?: string;
+  jsonPath?: string;
+  jsonFormat?: JsonFormat;
+  /** 1-based row holding the column names; rows above it are ignored. */
+  headerRow: number;
+}
+
+/**
+ * Anything that can feed rows to `FormFillerRunner`. Row ids are 1-based
+ * positions in the source (sheet row number, CSV record number, ...) so a
+ * row range means the same thing regardless of where the data lives.
+ */
+export interface RowSource {
+  rows(): AsyncIterable<Row>;
+}
+
+/**
+ * Lazily filters a row stream.
+ */
+export async function* filterRows(
+  rows: AsyncIterable<Row>,
+  predicate: (row: Row) => boolean,
+): AsyncIterable<Row> {
+  for await (const row of rows) {
+    if (predicate(row)) yield row;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Google Sheets                                                              */
+/* -------------------------------------------------------------------------- */
+
+export class SheetsRowSource implements RowSource {
+  constructor(
+    private readonly spreadsheetId: string,
+    private readonly worksheet: string | undefined,
+    private readonly headerRow: number,
+    private readonly service: GoogleSheetsService = googleSheetsService,
+  ) {}
+
+  async *rows(): AsyncIterable<Row> {
+    const { headers, records } = await this.service.fetchRecords(
+      this.spreadsheetId,
+      this.worksheet,
+      { headerRow: this.headerRow },
+    );
+    if (!headers.some(Boolean)) {
+      throw new Error(`Header row ${this.headerRow} of the sheet is empty.`);
+    }
+
+    for (const { rowNumber, values } of records) {
+      yield { id: rowNumber, data: values, url: values.url || undefined };
+    }
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Factory                                                                    */
+/* -------------------------------------------------------------------------- */
+
+export function createRowSource(
+  config: DataSourceConfig,
+  sheets: GoogleSheetsService = googleSheetsService,
+): RowSource {
+  switch (config.type) {
+    case 'google_sheet':
+      if (!config.spreadsheetId) {
+        throw new Error(
+          'data_source.spreadsheet_id is required for google_sheet sources.',
+        );
+      }
+      return new SheetsRowSource(
+        config.spreadsheetId,
+        config.worksheet,
+        config.headerRow,
+        sheets,
+      );
+    case 'csv':
+      if (!config.csvPath) {
+        throw new Error('data_source.csv_path is required for csv sources.');
+      }
+      return new CsvRowSource(config.csvPath, {
+        delimiter: config.csvDelimiter,
+        headerRow: config.headerRow,
+      });
+    case 'json':
+      if (!config.jsonPath) {
+        throw new Error('data_source.json_path is required for json sources.');
+      }
+      return new JsonRowSource(config.jsonPath, { format: config.jsonFormat });
+    default:
+      throw new Error(`Unsupported data_source.type "${config.type}".`);
+  }
+}
@@ -2,18 +2,71 @@ import { promises as fs } from 'fs';
 import path from 'path';
 // Import the standard Node.js argument parser utility.
 import { parseArgs as parse } from 'node:util';
+import { load as loadConfigFile, get as getConfig } from './configloader.js';
+import { googleSheetsService } from './googlesheetsservice.js';
+import type { FormTarget } from './domscanner.js';
+import { FormFillerRunner, FillResult, MappingEntry, Row } from './formfillerrunner.js';
+import type { JsonFormat } from './jsonrowsource.js';
+import { describeInvalidForm, MappingRule } from './mappingengine.js';
+import { describeProblems } from './mappingcheck.js';
+import { mappingFormat, parseMappingFile } from './mappingfile.js';
+import { createRowSource, DataSourceConfig, filterRows } from './rowsource.js';
+import { parseRowSelection, previewSelection, RowSelection } from './rowselection.js';
+import { SheetResultWriter, WriteBackColumns } from './sheetwriteback.js';
+import { describeUrlConflict, parseUrlPattern, resolveUrl, UrlCandidate } from './urlpattern.js';
 
 // --- Type Definitions for clarity ---
 interface CliOptions {
-	configPath: string;
+	configPath?: string;
 	quiet: boolean;
+	sheet?: string;
+	mapping?: string;
+	rows?: string;
+	url?: string;
+	headed: boolean;
+	preview: boolean;
+	check: boolean;
+	scan: boolean;
+	logout: boolean;
+}
+
+interface MappingRoute {
+	path: string;
+	urls: string[];
 }
 
 interface JobConfig {
-	targetUrl: string;
-	// other config properties...
+	targetUrl?: string;
+	mappingPath?: string;
+	/** Mappings chosen per page by URL pattern; `mappingPath` is the fallback */
+	mappingRoutes: MappingRoute[];
+	/** Limits filling to one form and submits it (the `form` section) */
+	form?: FormTarget;
+	rows?: string;
+	artifactsDir?: string;
+	headless: boolean;
+	dataSource: DataSourceConfig;
+	writeBack?: { spreadsheetId: string; columns: WriteBackColumns; batchSize?: number };
+	constants: Record<string, string>;
 }
 
+interface JobSummary {
+	total: number;
+	succeeded: number;
+	failed: number;
+	/** Results that could not be written back to the sheet */
+	writeFailures: number;
+}
+
+/** Exit code used when the job ran to completion but some rows failed. */
+const EXIT_ROWS_FAILED = 2;
+
+/** Exit code used when --check found mapping targets that will not fill. */
+const EXIT_CHECK_FAILED = 3;
+
+/** Exit code used when every row filled but write-back to the sheet failed. */
+const EXIT_WRITE_BACK_FAILED = 4;
+
 // Replaced the brittle, manual parser with Node.js's standard `util.parseArgs`.
 // This new version correctly handles different argument formats (e.g., --config=file.json)
 // and is much more robust.
@@ -23,6 +76,15 @@ function parseCliArgs(argv: string[]): CliOptions {
 			args: argv.slice(2),
 			options: {
 				config: { type: 'string', short: 'c' },
+				sheet: { type: 'string', short: 's' },
+				mapping: { type: 'string', short: 'm' },
+				rows: { type: 'string', short: 'r' },
+				url: { type: 'string', short: 'u' },
+				headed: { type: 'boolean' },
+				preview: { type: 'boolean', short: 'p' },
+				check: { type: 'boolean' },
+				scan: { type: 'boolean' },
+				logout: { type: 'boolean' },
 				quiet: { type: 'boolean', short: 'q' },
 				help: { type: 'boolean', short: 'h' },
 			},
@@ -33,13 +95,40 @@ function parseCliArgs(argv: string[]): CliOptions {
 			process.exit(0);
 		}
 
-		if (!values.config) {
-			throw new Error('Configuration file not specified. Use --config <path> or -c <path>.');
+		if (values.logout) {
+			return {
+				quiet: values.quiet || false,
+				headed: false,
+				preview: false,
+				check: false,
+				scan: false,
+				logout: true,
+			};
+		}
+
+		if (
+			!values.config &&
+			!(values.sheet && (values.mapping || values.preview)) &&
+			!(values.check && values.mapping && values.url) &&
+			!(values.scan && values.url)
+		) {
+			throw new Error(
+				'Configuration file not specified. Use --config <path>, or pass both --sheet and --mapping.'
+			);
 		}
 
 		return {
 			configPath: values.config,
 			quiet: values.quiet || false,
+			sheet: values.sheet,
+			mapping: values.mapping,
+			rows: values.rows,
+			url: values.url,
+			headed: values.headed || false,
+			preview: values.preview || false,
+			check: values.check || false,
+			scan: values.scan || false,
+			logout: false,
 		};
 	} catch (err: any) {
 		// Provide a more user-friendly error message for unknown arguments.
@@ -54,51 +143,390 @@ function printHelp(): void {
 
 Usage:
   node <script> --config <file> [options]
+  node <script> --sheet <id|url> --mapping <file> [options]
+  node <script> --check --mapping <file> --url <url>
+  node <script> --scan --url <url>
 
 Options:
-  -c, --config <file>    Path to job configuration JSON file (required)
+  -c, --config <file>    Path to job configuration YAML/JSON file
+  -s, --sheet <id|url>   Google Sheet ID or URL (switches data_source to google_sheet)
+  -m, --mapping <file>   Path to mapping CSV, YAML or JSON file (overrides mapping)
+  -r, --rows <expr>      Rows to process (overrides rows), e.g.
+                           "2-500"  "2,5,9"  "10-"
+                           "2-500 AND status != done AND country = US"
+  -p, --preview          List the rows --rows selects, then exit without filling
+      --check            Open the target page and report mapping selectors that
+                           are missing, ambiguous, hidden, disabled or of the
+                           wrong field type, then exit without filling
+      --scan             Print the target page's forms, with their fields and
+                           submit controls, as JSON in the same shape as a scan
+                           from the extension popup
+  -u, --url <url>        Target form URL (overrides target_url)
+      --headed           Show the browser window
+      --logout           Revoke the Google OAuth grant and wipe the stored token
   -q, --quiet            Suppress non-error log output
   -h, --help             Show this help and exit
+
+Exit codes:
+  0  all rows filled
+  1  the job could not run
+  2  the job ran but one or more rows failed
+  3  --check found problems with the mapping
+  4  every row filled but writing results back to the sheet failed
 `);
 }
 
-async function loadConfig(filePath: string): Promise<JobConfig> {
-	const resolved = path.resolve(process.cwd(), filePath);
+/**
+ * Accepts a bare spreadsheet ID or a full docs.google.com URL.
+ */
+function parseSpreadsheetId(sheet: string): string {
+	const match = sheet.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+	return match ? match[1] : sheet.trim();
+}
 
-	try {
-		const raw = await fs.readFile(resolved, 'utf8');
-		// Add structural validation for a more robust config loading
-		const config = JSON.parse(raw);
-		if (!config || typeof config.targetUrl !== 'string') {
-			throw new Error('Configuration file is missing required "targetUrl" property.');
+/**
+ * Loads the job file through configloader (YAML/JSON) and layers CLI
+ * overrides on top. Keys mirror the sections of default.ini.
+ */
+function loadConfig(options: CliOptions): JobConfig {
+	if (options.configPath) {
+		const resolved = path.resolve(process.cwd(), options.configPath);
+		try {
+			loadConfigFile(resolved);
+		} catch (error: unknown) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				throw new Error(`Configuration file not found: ${resolved}`);
+			}
+			if (error instanceof SyntaxError) {
+				throw new Error(`Configuration file is not valid JSON: ${resolved}`);
+			}
+			// Re-throw other errors, including validation errors
+			throw error;
+		}
+	}
+
+	const mappingPath = options.mapping ?? getConfig<string>('mapping');
+
+	const sheet = options.sheet ?? getConfig<string>('data_source.spreadsheet_id');
+	const csvPath = getConfig<string>('data_source.csv_path');
+	const jsonPath = getConfig<string>('data_source.json_path');
+	const dataSource: DataSourceConfig = {
+		type: options.sheet ? 'google_sheet' : getConfig<string>('data_source.type') || 'csv',
+		spreadsheetId: sheet ? parseSpreadsheetId(String(sheet)) : undefined,
+		worksheet: getConfig<string>('data_source.worksheet') || undefined,
+		csvPath: csvPath ? path.resolve(process.cwd(), String(csvPath)) : undefined,
+		csvDelimiter: getConfig<string>('data_source.csv_delimiter') || undefined,
+		jsonPath: jsonPath ? path.resolve(process.cwd(), String(jsonPath)) : undefined,
+		jsonFormat: getConfig<JsonFormat>('data_source.json_format') || undefined,
+		headerRow: Number(getConfig('data_source.header_row') ?? 1),
+	};
+	if (!Number.isInteger(dataSource.headerRow) || dataSource.headerRow < 1) {
+		throw new Error('data_source.header_row must be a positive integer.');
+	}
+
+	let writeBack: JobConfig['writeBack'];
+	if (getConfig<boolean>('write_back.enabled')) {
+		if (dataSource.type !== 'google_sheet') {
+			throw new Error('write_back is only supported for google_sheet data sources.');
+		}
+		if (!dataSource.spreadsheetId) {
+			throw new Error('write_back needs data_source.spreadsheet_id (or --sheet).');
+		}
+		writeBack = {
+			spreadsheetId: dataSource.spreadsheetId,
+			columns: {
+				status: getConfig<string>('write_back.status_column') || undefined,
+				error: getConfig<string>('write_back.error_column') || undefined,
+				timestamp: getConfig<string>('write_back.timestamp_column') || undefined,
+				artifact: getConfig<string>('write_back.artifact_column') || undefined,
+			},
+			batchSize: Number(getConfig('write_back.batch_size')) || undefined,
+		};
+	}
+
+	return {
+		targetUrl: options.url ?? getConfig<string>('target_url'),
+		constants: loadConstants(),
+		mappingPath: mappingPath ? path.resolve(process.cwd(), String(mappingPath)) : undefined,
+		mappingRoutes: loadMappingRoutes(),
+		form: loadForm(),
+		rows: options.rows ?? getConfig<string>('rows'),
+		artifactsDir: getConfig<string>('artifacts_dir'),
+		headless: options.headed ? false : getConfig<boolean>('browser.headless') !== false,
+		dataSource,
+		writeBack,
+	};
+}
+
+/**
+ * Template constants (`$const.NAME`): the `constants` section of the job
+ * file, overridden by `OMNIFORM_CONST_<NAME>` environment variables.
+ */
+function loadConstants(): Record<string, string> {
+	const constants: Record<string, string> = {};
+	const section = getConfig<Record<string, unknown>>('constants');
+	if (section && typeof section === 'object') {
+		for (const [name, value] of Object.entries(section)) {
+			if (value !== undefined && value !== null) constants[name] = String(value);
+		}
+	}
+	for (const [key, value] of Object.entries(process.env)) {
+		if (key.startsWith('OMNIFORM_CONST_') && value !== undefined) {
+			constants[key.slice('OMNIFORM_CONST_'.length)] = value;
+		}
+	}
+	return constants;
+}
+
+/**
+ * The `mappings` list of the job file: `{ file, urls }` items that pick a
+ * mapping file by the page URL (see urlpattern.ts).
+ */
+function loadMappingRoutes(): MappingRoute[] {
+	const section = getConfig<unknown>('mappings');
+	if (section === undefined || section === null) return [];
+	if (!Array.isArray(section)) {
+		throw new Error('mappings must be a list of { file, urls } items.');
+	}
+	return section.map((item: unknown, i) => {
+		const { file, urls } = (item ?? {}) as { file?: unknown; urls?: unknown };
+		const patterns = typeof urls === 'string' ? [urls] : urls;
+		if (
+			typeof file !== 'string' ||
+			!Array.isArray(patterns) ||
+			patterns.length === 0 ||
+			patterns.some((p) => typeof p !== 'string')
+		) {
+			throw new Error(`mappings[${i}] needs a "file" and one or more "urls" patterns.`);
 		}
-		return config as JobConfig;
+		patterns.forEach((p: string) => parseUrlPattern(p));
+		return { path: path.resolve(process.cwd(), file), urls: patterns as string[] };
+	});
+}
+
+/**
+ * The `form` section of the job file: `{ selector, submit, frame_path,
+ * shadow_path }` as printed by --scan. Fields outside the form are not
+ * filled, and `submit` is clicked once a row filled cleanly.
+ */
+function loadForm(): FormTarget | undefined {
+	const section = getConfig<Record<string, unknown>>('form');
+	if (section === undefined || section === null) return undefined;
+	const form = {
+		selector: section.selector,
+		submit: section.submit ?? undefined,
+		framePath: section.frame_path ?? undefined,
+		shadowPath: section.shadow_path ?? undefined,
+	} as FormTarget;
+	const problem = describeInvalidForm(form);
+	if (problem) throw new Error(`form ${problem}.`);
+	return form;
+}
+
+/**
+ * Reads a mapping file (CSV, YAML or JSON, by extension; see mappingfile.ts)
+ * into runner entries keyed by selector.
+ */
+async function loadMappingFile(filePath: string): Promise<Record<string, MappingEntry>> {
+	let text: string;
+	try {
+		text = await fs.readFile(filePath, 'utf8');
 	} catch (error: unknown) {
 		if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-			throw new Error(`Configuration file not found: ${resolved}`);
+			throw new Error(`Mapping file not found: ${filePath}`);
 		}
-		if (error instanceof SyntaxError) {
-			throw new Error(`Configuration file is not valid JSON: ${resolved}`);
-		}
-		// Re-throw other errors, including our validation error
 		throw error;
 	}
+	const mapping = await parseMappingFile(text, mappingFormat(filePath), filePath);
+
+	const entries: Record<string, MappingEntry> = {};
+	for (const [selector, target] of Object.entries(mapping)) {
+		const { column, ...rule }: MappingRule = typeof target === 'string' ? { column: target } : target;
+		entries[selector] = { selector, valueColumn: column, ...rule, type: rule.type ?? 'text' };
+	}
+	return entries;
+}
+
+/**
+ * Entries of the mapping file whose URL patterns best fit `url`, or
+ * undefined to use the `mapping` fallback.
+ */
+function routeMapping(
+	url: string,
+	routes: UrlCandidate<{ path: string; entries: Record<string, MappingEntry> }>[],
+	hasFallback: boolean
+): Record<string, MappingEntry> | undefined {
+	const { best, conflicts } = resolveUrl(url, routes);
+	if (conflicts.length) {
+		throw new Error(describeUrlConflict(url, conflicts, (route) => route.path));
+	}
+	if (!best && !hasFallback) throw new Error(`No mapping in "mappings" matches ${url}`);
+	return best?.item.entries;
+}
+
+/**
+ * Loads the fallback mapping and any URL-routed mappings the config names.
+ */
+async function loadMappings(config: JobConfig): Promise<{
+	mapping: Record<string, MappingEntry>;
+	mappingForUrl?: (url: string) => Record<string, MappingEntry> | undefined;
+}> {
+	if (!config.mappingPath && config.mappingRoutes.length === 0) {
+		throw new Error('Configuration is missing required "mapping" property.');
+	}
+	const mapping = config.mappingPath ? await loadMappingFile(config.mappingPath) : {};
+	const routes = await Promise.all(
+		config.mappingRoutes.map(async (route) => ({
+			item: { path: route.path, entries: await loadMappingFile(route.path) },
+			patterns: route.urls,
+		}))
+	);
+	return {
+		mapping,
+		mappingForUrl: routes.length ? (url) => routeMapping(url, routes, !!config.mappingPath) : undefined,
+	};
+}
+
+function loadSelection(config: JobConfig): RowSelection | null {
+	return config.rows ? parseRowSelection(String(config.rows)) : null;
 }
 
 /* -------------------------------------------------------------------------- */
-/* Core Job Logic (placeholder)                                               */
+/* Core Job Logic                                                             */
 /* -------------------------------------------------------------------------- */
 
-async function runHeadlessJob(config: JobConfig, quiet = false): Promise<void> {
-	if (!quiet) {
-		console.log(`-> Starting headless job for ${config.targetUrl}`);
+async function runHeadlessJob(config: JobConfig, quiet = false): Promise<JobSummary> {
+	const log = (msg: string) => {
+		if (!quiet) console.log(msg);
+	};
+
+	const { mapping, mappingForUrl } = await loadMappings(config);
+	const selection = loadSelection(config);
+	let rows = createRowSource(config.dataSource).rows();
+	if (selection) {
+		rows = filterRows(rows, (row) => selection.matches(row));
 	}
 
-	// Simulate async work...
-	await new Promise((resolve) => setTimeout(resolve, 1000));
+	const summary: JobSummary = { total: 0, succeeded: 0, failed: 0, writeFailures: 0 };
 
-	if (!quiet) {
-		console.log('-> Job completed successfully.');
+	log(`-> Starting headless job (${config.dataSource.type})`);
+	const runner = new FormFillerRunner(mapping, rows, {
+		defaultUrl: config.targetUrl,
+		artifactsDir: config.artifactsDir,
+		browserLaunchOptions: { headless: config.headless },
+		constants: config.constants,
+		mappingForUrl,
+		form: config.form,
+		resultWriter: config.writeBack
+			? new SheetResultWriter({
+					worksheet: config.dataSource.worksheet,
+					headerRow: config.dataSource.headerRow,
+					...config.writeBack,
+				})
+			: undefined,
+	});
+
+	runner.on('row-done', (row: Row, result: FillResult) => {
+		summary.total++;
+		if (result.success) {
+			summary.succeeded++;
+			log(`   row ${row.id}: ${result.submitted ? 'ok, submitted' : 'ok'}`);
+		} else {
+			summary.failed++;
+			console.error(`   row ${row.id}: failed\n     ${(result.errors ?? []).join('\n     ')}`);
+		}
+		// Healed fields filled correctly, but the mapping's selector needs updating
+		for (const note of result.healed ?? []) {
+			console.warn(`     ${note}`);
+		}
+	});
+
+	// The runner has already logged the cause
+	runner.on('write-failed', () => {
+		summary.writeFailures++;
+	});
+
+	// Let Ctrl+C finish the current row and dispose the browser cleanly.
+	const onSigint = () => runner.abort();
+	process.once('SIGINT', onSigint);
+	try {
+		await runner.run();
+	} finally {
+		process.removeListener('SIGINT', onSigint);
+	}
+
+	if (summary.total === 0) {
+		log('-> No rows to process.');
+	} else {
+		log(`-> Job finished: ${summary.succeeded} succeeded, ${summary.failed} failed.`);
+	}
+	if (summary.writeFailures > 0) {
+		console.error(`-> ${summary.writeFailures} write-back(s) to the sheet failed.`);
+	}
+	return summary;
+}
+
+/**
+ * Opens the target page and checks every selector of the mapping that
+ * applies to it. Returns the number of problems found.
+ */
+async function checkJob(config: JobConfig): Promise<number> {
+	if (!config.targetUrl) {
+		throw new Error('--check needs a page to open: pass --url or set target_url.');
+	}
+	const { mapping, mappingForUrl } = await loadMappings(config);
+	const runner = new FormFillerRunner(mapping, [], {
+		defaultUrl: config.targetUrl,
+		browserLaunchOptions: { headless: config.headless },
+		mappingForUrl,
+	});
+
+	const checks = await runner.checkPage();
+	const problems = describeProblems(checks);
+	console.log(`Checked ${checks.length} selector(s) on ${config.targetUrl}`);
+	for (const line of problems) {
+		console.log(`  ${line}`);
+	}
+	if (problems.length === 0) console.log('-> All mapping targets found.');
+	return problems.length;
+}
+
+/**
+ * Prints the forms of the target page as JSON (see domscanner.ts).
+ */
+async function scanJob(config: JobConfig): Promise<void> {
+	if (!config.targetUrl) {
+		throw new Error('--scan needs a page to open: pass --url or set target_url.');
+	}
+	const runner = new FormFillerRunner({}, [], {
+		defaultUrl: config.targetUrl,
+		browserLaunchOptions: { headless: config.headless },
+	});
+	const forms = await runner.scanPage();
+	console.log(JSON.stringify(forms, null, 2));
+}
+
+/**
+ * Prints which rows the selection would process without opening a browser.
+ */
+async function previewJob(config: JobConfig): Promise<void> {
+	const selection = loadSelection(config) ?? parseRowSelection('1-');
+	const preview = await previewSelection(
+		createRowSource(config.dataSource).rows(),
+		selection
+	);
+
+	console.log(`Selection: ${selection.describe()}`);
+	console.log(`${preview.matched} of ${preview.scanned} row(s) match.`);
+	for (const row of preview.rows) {
+		const cells = Object.entries(row.data)
+			.slice(0, 4)
+			.map(([k, v]) => `${k}=${JSON.stringify(v)}`)
+			.join(' ');
+		console.log(`  ${String(row.id).padStart(6)}  ${cells}`);
+	}
+	if (preview.matched > preview.rows.length) {
+		console.log(`  ... ${preview.matched - preview.rows.length} more`);
 	}
 }
 
@@ -110,9 +538,31 @@ async function main(): Promise<void> {
 	try {
 		// The main logic is now cleaner, relying on the robust parser.
 		const options = parseCliArgs(process.argv);
-		const config = await loadConfig(options.configPath);
-		await runHeadlessJob(config, options.quiet);
-		process.exitCode = 0;
+		if (options.logout) {
+			await googleSheetsService.logout();
+			if (!options.quiet) console.log('-> Signed out of Google Sheets.');
+			return;
+		}
+		const config = loadConfig(options);
+		if (options.preview) {
+			await previewJob(config);
+			return;
+		}
+		if (options.scan) {
+			await scanJob(config);
+			return;
+		}
+		if (options.check) {
+			const problems = await checkJob(config);
+			process.exitCode = problems > 0 ? EXIT_CHECK_FAILED : 0;
+			return;
+		}
+		const summary = await runHeadlessJob(config, options.quiet);
+		if (summary.failed > 0) {
+			process.exitCode = EXIT_ROWS_FAILED;
+		} else {
+			process.exitCode = summary.writeFailures > 0 ? EXIT_WRITE_BACK_FAILED : 0;
+		}
 	} catch (error: unknown) {
 		// The main error handler is now simpler.
 		// Specific parsing errors are handled inside `parseCliArgs`.
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStorage } from './filestorage.js';
+import SelectorVault from './selectorvault.js';
+
+let dir: string;
+let storage: FileStorage;
+
+/* Few iterations keep the PBKDF2 runs fast */
+const vault = () => new SelectorVault(storage, 1000);
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-'));
+  storage = new FileStorage(path.join(dir, 'vault.json'));
+});
+
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('SelectorVault entries', () => {
+  it('stores entries encrypted and reads them back', async () => {
+    const v = vault();
+    await v.initVault('secret');
+    await v.setEntry('token', '{"refresh_token":"abc"}');
+    await v.setEntry('other', 'x');
+    await v.deleteEntry('other');
+
+    expect(await v.getEntry('token')).toBe('{"refresh_token":"abc"}');
+    expect(await v.getEntry('other')).toBeUndefined();
+    expect(storage.getItem(SelectorVault.STORAGE_KEY)).toMatch(/^v1\.[A-Za-z0-9+\/]+=*$/);
+
+    const reopened = vault();
+    await reopened.initVault('secret');
+    expect(await reopened.getEntry('token')).toBe('{"refresh_token":"abc"}');
+  });
+
+  it('draws a fresh salt for every write', async () => {
+    const v = vault();
+    await v.initVault('secret');
+    const salts = new Set<string>();
+    for (let i = 0; i < 3; i++) {
+      await v.setEntry('k', 'same');
+      const packed = Buffer.from(storage.getItem(SelectorVault.STORAGE_KEY)!.slice(3), 'base64');
+      salts.add(packed.subarray(4, 20).toString('hex'));
+    }
+    expect(salts.size).toBe(3);
+  });
+
+  it('rejects a wrong master key for an existing vault', async () => {
+    const v = vault();
+    await v.initVault('secret');
+    await v.setEntry('k', 'v');
+    await expect(vault().initVault('wrong')).rejects.toThrow('Invalid master key for existing vault');
+  });
+
+  it('forgets the key on lock', async () => {
+    const v = vault();
+    await v.initVault('secret');
+    await v.setEntry('k', 'v');
+    v.lock();
+
+    expect(v.isUnlocked()).toBe(false);
+    await expect(v.getEntry('k')).rejects.toThrow('Vault not initialized');
+    await expect(v.initVault('wrong')).rejects.toThrow('Invalid master key');
+    await v.initVault('secret');
+    expect(await v.getEntry('k')).toBe('v');
+  });
+});
@@ -12,6 +12,8 @@ class SelectorVault {
 	// Instance properties
 	private masterKey: string | null = null;
 	private storage: Storage;
+	// Key derived from the current master key for the stored payload's salt
+	private keyCache = new Map<string, Promise<CryptoKey>>();
     private iterations: number;
 
 	constructor(storage: Storage = localStorage, iterations?: number) {
@@ -27,14 +29,14 @@ class SelectorVault {
 		if (!masterKey) {
 			throw new Error('Master key cannot be empty');
 		}
-		this.masterKey = masterKey;
+		this.setMasterKey(masterKey);
 
 		const existing = this.storage.getItem(SelectorVault.STORAGE_KEY);
         if (existing) {
           try {
             await this.decrypt(existing); // throws if wrong key
           } catch {
-            this.masterKey = null;
+            this.setMasterKey(null);
             throw new Error('Invalid master key for existing vault');
           }
         }
@@ -52,11 +54,7 @@ class SelectorVault {
     // Derivation parameters
     const salt = SelectorVault.randomBytes(SelectorVault.SALT_LENGTH);
     const iv = SelectorVault.randomBytes(SelectorVault.IV_LENGTH);
-    const cryptoKey = await this.deriveKey(
-      this.masterKey as string,
-      salt,
-      this.iterations
-    );
+    const cryptoKey = await this.cachedKey(salt, this.iterations);
 
     // Encrypt
     const encoded = SelectorVault.textEncode(JSON.stringify(data));
@@ -131,11 +129,7 @@ class SelectorVault {
     const data = packed.slice(offset);
 
     // Derive & decrypt
-    const cryptoKey = await this.deriveKey(
-      this.masterKey as string,
-      salt,
-      iterations
-    );
+    const cryptoKey = await this.cachedKey(salt, iterations);
 
     let plainBuf: ArrayBuffer;
     try {
@@ -180,15 +174,43 @@ class SelectorVault {
     const data = await this.load();
     const oldKey = this.masterKey;
     try {
-      this.masterKey = newKey;
+      this.setMasterKey(newKey);
       await this.save(data);
     } catch (err) {
       // rollback
-      this.masterKey = oldKey;
+      this.setMasterKey(oldKey);
       throw err;
     }
   }
 
+	/** True once `initVault()` has accepted a master key. */
+	isUnlocked(): boolean {
+		return this.masterKey !== null;
+	}
+
+	/** Forget the master key and drop its cached derived key; stored data stays encrypted. */
+	lock(): void {
+		this.setMasterKey(null);
+	}
+
+	/** Read a single entry (undefined if absent). */
+	async getEntry(key: string): Promise<string | undefined> {
+		return (await this.load()).get(key);
+	}
+
+	/** Add or replace a single entry and re-encrypt the vault. */
+	async setEntry(key: string, value: string): Promise<void> {
+		const data = await this.load();
+		data.set(key, value);
+		await this.save(data);
+	}
+
+	/** Remove a single entry and re-encrypt the vault. */
+	async deleteEntry(key: string): Promise<void> {
+		const data = await this.load();
+		if (data.delete(key)) await this.save(data);
+	}
+
 	/* ------------------------------------------------------------------ *
 	 * INTERNAL UTILITIES                                                 *
 	 * ------------------------------------------------------------------ */
@@ -199,6 +221,31 @@ class SelectorVault {
 		}
 	}
 
+	private setMasterKey(masterKey: string | null): void {
+		this.masterKey = masterKey;
+		this.keyCache.clear();
+	}
+
+	/**
+	 * Derives the key for `salt` once while the master key is unchanged, so
+	 * reading entries back costs no PBKDF2 run. Storage holds one payload,
+	 * so only the key of the newest salt is kept.
+	 */
+	private cachedKey(salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+		const id = `${iterations}:${SelectorVault.base64Encode(salt)}`;
+		let key = this.keyCache.get(id);
+		if (!key) {
+			key = this.deriveKey(this.masterKey as string, salt, iterations);
+			this.keyCache.clear();
+			this.keyCache.set(id, key);
+			const derived = key;
+			derived.catch(() => {
+				if (this.keyCache.get(id) === derived) this.keyCache.delete(id);
+			});
+		}
+		return key;
+	}
+
 	private subtle(): SubtleCrypto {
 		if (typeof crypto !== 'undefined' && crypto.subtle) return crypto.subtle;
 		throw new Error('WebCrypto is not available in this environment.');
@@ -0,0 +1,82 @@
+import { FakeSheetsError } from './fakesheets.js';
+import { httpStatus, isTransientError, RequestScheduler, retryAfterMs } from './sheetsscheduler.js';
+
+function failing(errors: unknown[]): { calls: number; fn: () => Promise<string> } {
+  const state = {
+    calls: 0,
+    fn: async () => {
+      const err = errors[state.calls++];
+      if (err) throw err;
+      return 'ok';
+    },
+  };
+  return state;
+}
+
+describe('error classification', () => {
+  it('reads the status from gaxios-shaped errors', () => {
+    expect(httpStatus(new FakeSheetsError(503, 'down', 'backendError'))).toBe(503);
+    expect(httpStatus({ status: 404 })).toBe(404);
+    expect(httpStatus({ code: 'ECONNRESET' })).toBeUndefined();
+  });
+
+  it('retries 429, 5xx, network resets and quota-flavoured 403s only', () => {
+    expect(isTransientError(new FakeSheetsError(429, 'slow down', 'rateLimitExceeded'))).toBe(true);
+    expect(isTransientError(new FakeSheetsError(502, 'bad gateway', 'backendError'))).toBe(true);
+    expect(isTransientError(new FakeSheetsError(403, 'quota', 'userRateLimitExceeded'))).toBe(true);
+    expect(isTransientError(new FakeSheetsError(403, 'denied', 'forbidden'))).toBe(false);
+    expect(isTransientError(new FakeSheetsError(400, 'bad', 'badRequest'))).toBe(false);
+    expect(isTransientError({ code: 'ECONNRESET' })).toBe(true);
+    expect(isTransientError(new Error('boom'))).toBe(false);
+  });
+
+  it('parses Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(retryAfterMs(new FakeSheetsError(429, 'x', 'y', { 'retry-after': '3' }))).toBe(3000);
+    expect(
+      retryAfterMs({ response: { headers: { 'Retry-After': 'Mon, 01 Jan 2024 00:00:05 GMT' } } }, now),
+    ).toBe(5000);
+    expect(
+      retryAfterMs({ response: { headers: new Headers({ 'retry-after': '1' }) } }),
+    ).toBe(1000);
+    expect(retryAfterMs(new FakeSheetsError(503, 'x', 'y'))).toBeUndefined();
+  });
+});
+
+describe('RequestScheduler', () => {
+  const fast = () => new RequestScheduler({ baseDelayMs: 1, maxDelayMs: 5 });
+
+  it('rejects a non-positive rate', () => {
+    expect(() => new RequestScheduler({ ratePerMinute: 0 })).toThrow('ratePerMinute');
+  });
+
+  it('retries transient errors until the call succeeds', async () => {
+    const call = failing([
+      new FakeSheetsError(503, 'down', 'backendError'),
+      new FakeSheetsError(429, 'slow down', 'rateLimitExceeded', { 'retry-after': '1' }),
+    ]);
+    await expect(fast().schedule(call.fn)).resolves.toBe('ok');
+    expect(call.calls).toBe(3);
+  });
+
+  it('rethrows permanent errors at once', async () => {
+    const call = failing([new FakeSheetsError(404, 'missing', 'notFound')]);
+    await expect(fast().schedule(call.fn)).rejects.toThrow('missing');
+    expect(call.calls).toBe(1);
+  });
+
+  it('gives up after the allowed attempts', async () => {
+    const err = new FakeSheetsError(500, 'still down', 'backendError');
+    const call = failing([err, err, err]);
+    await expect(fast().schedule(call.fn, 2)).rejects.toBe(err);
+    expect(call.calls).toBe(2);
+  });
+
+  it('holds callers while paused, for at most maxDelayMs', async () => {
+    const scheduler = fast();
+    scheduler.pause(30);
+    const started = Date.now();
+    await scheduler.schedule(async () => 'ok');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(4);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Rate-limit aware request scheduling for the Google Sheets API.
+ *
+ * Every call first takes a token from a per-quota bucket, so parallel runs
+ * sharing one quota stay under `[google_api] rate_limit_per_min`. Transient
+ * failures (429, 5xx, network resets, quota-flavoured 403s) are retried with
+ * jittered exponential back-off, and a `Retry-After` header pauses the whole
+ * bucket rather than just the caller that received it. Permanent errors such
+ * as 400/401/403/404 are rethrown immediately.
+ */
+
+export interface SchedulerOptions {
+  /** Sustained request rate. Defaults to 90, the default.ini value. */
+  ratePerMinute?: number;
+  /** Total attempts per request, including the first. Defaults to 5. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RATE_PER_MINUTE = 90;
+const TRANSIENT_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+]);
+/* Google reports some quota errors as 403 with one of these reasons */
+const QUOTA_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+const sleep = (ms: number) => new Promise<void>((res) => setTimeout(res, ms));
+
+/* ------------------------------------------------------------------ */
+/* Error classification                                              */
+/* ------------------------------------------------------------------ */
+
+type ApiError = {
+  code?: number | string;
+  status?: number;
+  errors?: { reason?: string }[];
+  response?: {
+    status?: number;
+    headers?: Record<string, string> | { get(name: string): string | null };
+    data?: { error?: { errors?: { reason?: string }[] } };
+  };
+};
+
+export function httpStatus(err: unknown): number | undefined {
+  const e = err as ApiError;
+  const status = e?.response?.status ?? e?.status ?? e?.code;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function errorReasons(err: unknown): string[] {
+  const e = err as ApiError;
+  const list = e?.errors ?? e?.response?.data?.error?.errors ?? [];
+  return list.map((x) => x?.reason ?? '').filter(Boolean);
+}
+
+/**
+ * True when retrying the same request may succeed.
+ */
+export function isTransientError(err: unknown): boolean {
+  const status = httpStatus(err);
+  if (status !== undefined) {
+    if (TRANSIENT_STATUS.has(status)) return true;
+    if (status === 403) return errorReasons(err).some((r) => QUOTA_REASONS.has(r));
+    return false;
+  }
+  const code = (err as ApiError)?.code;
+  return typeof code === 'string' && TRANSIENT_CODES.has(code);
+}
+
+/**
+ * Parses a `Retry-After` header (delta-seconds or HTTP date) into ms.
+ */
+export function retryAfterMs(err: unknown, now = Date.now()): number | undefined {
+  const headers = (err as ApiError)?.response?.headers;
+  if (!headers) return undefined;
+  const raw =
+    typeof (headers as { get?: unknown }).get === 'function'
+      ? (headers as { get(name: string): string | null }).get('retry-after')
+      : (headers as Record<string, string>)['retry-after'] ??
+        (headers as Record<string, string>)['Retry-After'];
+  if (!raw) return undefined;
+
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/* ------------------------------------------------------------------ */
+/* Scheduler                                                          */
+/* ------------------------------------------------------------------ */
+
+export class RequestScheduler {
+  readonly ratePerMinute: number;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  /* Serialises token hand-out so waiters are served in order */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(opts: SchedulerOptions = {}) {
+    this.ratePerMinute = opts.ratePerMinute ?? DEFAULT_RATE_PER_MINUTE;
+    if (!(this.ratePerMinute > 0)) {
+      throw new Error('ratePerMinute must be a positive number.');
+    }
+    this.capacity = Math.max(1, Math.floor(this.ratePerMinute));
+    this.refillPerMs = this.ratePerMinute / 60_000;
+    this.tokens = this.capacity;
+    this.maxAttempts = Math.max(1, opts.maxAttempts ?? 5);
+    this.baseDelayMs = opts.baseDelayMs ?? 500;
+    this.maxDelayMs = opts.maxDelayMs ?? 60_000;
+  }
+
+  /**
+   * Run `fn` under the rate limit, retrying transient failures.
+   */
+  async schedule<T>(fn: () => Promise<T>, attempts = this.maxAttempts): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire();
+      try {
+        return await fn();
+      } catch (err) {
+        if (attempt >= attempts || !isTransientError(err)) throw err;
+
+        const hinted = retryAfterMs(err);
+        if (hinted !== undefined) {
+          this.pause(hinted);
+        } else {
+          const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+          await sleep(backoff / 2 + Math.random() * (backoff / 2));
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop handing out tokens for `ms`, e.g. after a 429 with Retry-After.
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + Math.min(ms, this.maxDelayMs));
+  }
+
+  private acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (now - this.lastRefill) * this.refillPerMs,
+      );
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+}
+
+const shared = new Map<number, RequestScheduler>();
+
+/**
+ * One scheduler per quota, shared by every service instance in the process.
+ */
+export function getSharedScheduler(ratePerMinute = DEFAULT_RATE_PER_MINUTE): RequestScheduler {
+  let scheduler = shared.get(ratePerMinute);
+  if (!scheduler) {
+    scheduler = new RequestScheduler({ ratePerMinute });
+    shared.set(ratePerMinute, scheduler);
+  }
+  return scheduler;
+}
@@ -0,0 +1,110 @@
+import { FakeWorkbook } from './fakesheets.js';
+import type { FillResult, Row } from './formfillerrunner.js';
+import { GoogleSheetsService } from './googlesheetsservice.js';
+import { RequestScheduler } from './sheetsscheduler.js';
+import { SheetResultWriter, WriteBackOptions } from './sheetwriteback.js';
+
+const ok: FillResult = { success: true };
+const failed: FillResult = { success: false, errors: ['Email is required', 'timeout'] };
+
+function row(id: number): Row {
+  return { id, data: {} };
+}
+
+function setup(opts: Partial<WriteBackOptions> = {}) {
+  const book = new FakeWorkbook('sheet-1', {
+    Leads: [
+      ['name', 'ID', 'status', 'error'],
+      ['Ada', '1'],
+      ['Bo', '2'],
+      ['Cy', '3'],
+    ],
+  });
+  const writer = new SheetResultWriter({
+    spreadsheetId: 'sheet-1',
+    worksheet: 'Leads',
+    columns: { status: 'status', error: 'error' },
+    service: new GoogleSheetsService({
+      client: book.client(),
+      scheduler: new RequestScheduler({ baseDelayMs: 1, maxDelayMs: 5, maxAttempts: 1 }),
+    }),
+    ...opts,
+  });
+  return { book, writer };
+}
+
+describe('SheetResultWriter', () => {
+  it('needs at least one column', () => {
+    expect(() => setup({ columns: {} })).toThrow('at least one target column');
+  });
+
+  it('buffers results and writes them in one batch on flush', async () => {
+    const { book, writer } = setup();
+    await writer.write(row(2), ok);
+    await writer.write(row(3), failed);
+    expect(book.requests.map((r) => r.method)).toEqual(['values.get']);
+
+    await writer.flush();
+    expect(book.requests[1]).toEqual({
+      method: 'values.batchUpdate',
+      ranges: ['Leads!C2', 'Leads!D2', 'Leads!C3', 'Leads!D3'],
+    });
+    expect(book.sheet('Leads')[1].slice(2)).toEqual(['OK', '']);
+    expect(book.sheet('Leads')[2].slice(2)).toEqual(['FAILED', 'Email is required; timeout']);
+  });
+
+  it('flushes on its own once the batch is full', async () => {
+    const { book, writer } = setup({ batchSize: 2 });
+    await writer.write(row(2), ok);
+    await writer.write(row(3), ok);
+    await writer.write(row(4), ok);
+    expect(book.requests.filter((r) => r.method === 'values.batchUpdate')).toHaveLength(1);
+    expect(book.sheet('Leads')[3][2]).toBeUndefined();
+  });
+
+  it('prefers a header name over a column letter', async () => {
+    const { book, writer } = setup({ columns: { status: 'ID', timestamp: 'F' } });
+    await writer.write(row(2), ok);
+    await writer.flush();
+    expect(book.sheet('Leads')[1][1]).toBe('OK');
+    expect(book.sheet('Leads')[1][5]).toMatch(/^\d{4}-\d\d-\d\dT/);
+  });
+
+  it('rejects a column that is neither a header nor a letter', async () => {
+    const { writer } = setup({ columns: { status: 'Result' } });
+    await expect(writer.write(row(2), ok)).rejects.toThrow(
+      'Write-back column "Result" not found in the header row.',
+    );
+  });
+
+  it('reads the header row again after a failed read', async () => {
+    const { book, writer } = setup();
+    book.failNext(503);
+    await expect(writer.write(row(2), ok)).rejects.toThrow('Injected 503 error');
+
+    await writer.write(row(3), ok);
+    await writer.flush();
+    expect(book.sheet('Leads')[2][2]).toBe('OK');
+  });
+
+  it('rejects row ids that are not sheet rows', async () => {
+    const { writer } = setup();
+    await expect(writer.write({ id: 'a', data: {} }, ok)).rejects.toThrow('not a sheet row number');
+  });
+
+  it('keeps the batch when a flush fails and sends it on the next one', async () => {
+    const { book, writer } = setup();
+    await writer.write(row(2), ok);
+    book.failNext(503);
+    await expect(writer.flush()).rejects.toThrow('Injected 503 error');
+    expect(book.sheet('Leads')[1][2]).toBeUndefined();
+
+    await writer.write(row(3), failed);
+    await writer.flush();
+    expect(book.requests.at(-1)?.ranges).toEqual(['Leads!C2', 'Leads!D2', 'Leads!C3', 'Leads!D3']);
+    expect(book.sheet('Leads')[1][2]).toBe('OK');
+
+    await writer.flush();
+    expect(book.requests.filter((r) => r.method === 'values.batchUpdate')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  a1Range,
+  columnLetter,
+  googleSheetsService,
+  GoogleSheetsService,
+  Rows,
+} from './googlesheetsservice.js';
+import type { FillResult, ResultWriter, Row } from './formfillerrunner.js';
+
+/**
+ * Target columns for each piece of the result. A value is a header name
+ * from the header row or, when no header matches, an A1 column letter
+ * (`"Z"`). Omitted columns are not written.
+ */
+export interface WriteBackColumns {
+  status?: string;
+  error?: string;
+  timestamp?: string;
+  artifact?: string;
+}
+
+export interface WriteBackOptions {
+  spreadsheetId: string;
+  worksheet?: string;
+  headerRow?: number;
+  columns: WriteBackColumns;
+  /** Rows buffered before a `values.batchUpdate` is sent. Defaults to 50. */
+  batchSize?: number;
+  service?: GoogleSheetsService;
+}
+
+const STATUS_OK = 'OK';
+const STATUS_FAILED = 'FAILED';
+
+/**
+ * Writes per-row fill results back to the source sheet. Cells are buffered
+ * and flushed in `values.batchUpdate` calls, so a 500-row run with the
+ * default batch size costs 10 API calls rather than 500+.
+ *
+ * Row ids must be absolute sheet row numbers, which is what
+ * `SheetsRowSource` produces.
+ */
+export class SheetResultWriter implements ResultWriter {
+  private readonly service: GoogleSheetsService;
+  private readonly batchSize: number;
+  private pending: { range: string; values: Rows }[] = [];
+  private pendingRows = 0;
+  private resolved?: Promise<Partial<Record<keyof WriteBackColumns, string>>>;
+
+  constructor(private readonly opts: WriteBackOptions) {
+    this.service = opts.service ?? googleSheetsService;
+    this.batchSize = Math.max(1, opts.batchSize ?? 50);
+    if (!Object.values(opts.columns).some(Boolean)) {
+      throw new Error('Write-back needs at least one target column.');
+    }
+  }
+
+  async write(row: Row, result: FillResult): Promise<void> {
+    const rowNumber = Number(row.id);
+    if (!Number.isInteger(rowNumber) || rowNumber < 1) {
+      throw new Error(`Cannot write back row "${row.id}": not a sheet row number.`);
+    }
+
+    const columns = await this.resolveColumns();
+    const cells: Record<keyof WriteBackColumns, string> = {
+      status: result.success ? STATUS_OK : STATUS_FAILED,
+      error: (result.errors ?? []).join('; '),
+      timestamp: new Date().toISOString(),
+      artifact: result.artifacts?.screenshot ?? Object.values(result.artifacts ?? {})[0] ?? '',
+    };
+
+    for (const key of Object.keys(columns) as (keyof WriteBackColumns)[]) {
+      const letter = columns[key];
+      if (!letter) continue;
+      this.pending.push({
+        range: a1Range(this.opts.worksheet, `${letter}${rowNumber}`),
+        values: [[cells[key]]],
+      });
+    }
+
+    if (++this.pendingRows >= this.batchSize) {
+      await this.flush();
+    }
+  }
+
+  /** Sends the buffered cells. They stay buffered until the write succeeds. */
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) return;
+    const batch = this.pending;
+    const rows = this.pendingRows;
+    await this.service.batchUpdateValues(this.opts.spreadsheetId, batch);
+    this.pending = this.pending.slice(batch.length);
+    this.pendingRows -= rows;
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* Helpers                                                            */
+  /* ------------------------------------------------------------------ */
+
+  /**
+   * Maps every configured column to its letter, reading the header row
+   * once. Header names win, so a header such as "ID" is never taken for
+   * column ID. A failed read is not remembered; the next write retries it.
+   */
+  private resolveColumns(): Promise<Partial<Record<keyof WriteBackColumns, string>>> {
+    if (!this.resolved) {
+      this.resolved = (async () => {
+        const entries = Object.entries(this.opts.columns).filter(
+          (e): e is [keyof WriteBackColumns, string] => Boolean(e[1]),
+        );
+        const headers = await this.service.fetchHeaders(
+          this.opts.spreadsheetId,
+          this.opts.worksheet,
+          this.opts.headerRow ?? 1,
+        );
+
+        const out: Partial<Record<keyof WriteBackColumns, string>> = {};
+        for (const [key, col] of entries) {
+          const idx = headers.indexOf(col);
+          if (idx !== -1) {
+            out[key] = columnLetter(idx);
+          } else if (/^[A-Z]{1,3}$/.test(col)) {
+            out[key] = col;
+          } else {
+            throw new Error(`Write-back column "${col}" not found in the header row.`);
+          }
+        }
+        return out;
+      })().catch((err) => {
+        this.resolved = undefined;
+        throw err;
+      });
+    }
+    return this.resolved;
+  }
+}
@@ -0,0 +1,88 @@
+import { describeUrlConflict, parseUrlPattern, resolveUrl, UrlPatternError } from './urlpattern.js';
+
+describe('parseUrlPattern', () => {
+  it('matches any http(s) page on a bare host', () => {
+    const pattern = parseUrlPattern('shop.example.com');
+    expect(pattern.matches('https://shop.example.com/cart')).toBe(true);
+    expect(pattern.matches('http://shop.example.com/')).toBe(true);
+    expect(pattern.matches('ftp://shop.example.com/')).toBe(false);
+    expect(pattern.matches('https://www.shop.example.com/')).toBe(false);
+  });
+
+  it('matches subdomains and any depth with *. and **', () => {
+    const pattern = parseUrlPattern('https://*.example.com/checkout/**');
+    expect(pattern.matches('https://example.com/checkout/a/b')).toBe(true);
+    expect(pattern.matches('https://eu.example.com/checkout/pay')).toBe(true);
+    expect(pattern.matches('http://eu.example.com/checkout/pay')).toBe(false);
+    expect(pattern.matches('https://badexample.com/checkout/pay')).toBe(false);
+  });
+
+  it('limits * to one path segment and allows a trailing slash', () => {
+    const pattern = parseUrlPattern('example.com/orders/*');
+    expect(pattern.matches('https://example.com/orders/42')).toBe(true);
+    expect(pattern.matches('https://example.com/orders/42/edit')).toBe(false);
+    expect(parseUrlPattern('example.com/checkout').matches('https://example.com/checkout/')).toBe(true);
+  });
+
+  it('applies query predicates', () => {
+    const pattern = parseUrlPattern('example.com/signup?step=2&!promo&ref!=spam*');
+    expect(pattern.matches('https://example.com/signup?step=2')).toBe(true);
+    expect(pattern.matches('https://example.com/signup?step=2&promo=1')).toBe(false);
+    expect(pattern.matches('https://example.com/signup?step=3')).toBe(false);
+    expect(pattern.matches('https://example.com/signup?step=2&ref=spammer')).toBe(false);
+  });
+
+  it('compares explicit ports against the default port', () => {
+    expect(parseUrlPattern('localhost:8080/form').matches('http://localhost:8080/form')).toBe(true);
+    expect(parseUrlPattern('localhost:8080/form').matches('http://localhost/form')).toBe(false);
+    expect(parseUrlPattern('https://example.com:443').matches('https://example.com/')).toBe(true);
+  });
+
+  it('returns false for unparsable URLs', () => {
+    expect(parseUrlPattern('example.com').matches('not a url')).toBe(false);
+  });
+
+  it('rejects empty and malformed patterns', () => {
+    expect(() => parseUrlPattern('  ')).toThrow(UrlPatternError);
+    expect(() => parseUrlPattern('exa*mple.com')).toThrow(/Expected a host/);
+    expect(() => parseUrlPattern('example.com?=1')).toThrow(/Missing query key/);
+  });
+});
+
+describe('resolveUrl', () => {
+  it('prefers the most specific pattern', () => {
+    const result = resolveUrl('https://shop.example.com/checkout/pay?step=2', [
+      { item: 'any', patterns: ['*.example.com'] },
+      { item: 'host', patterns: ['shop.example.com'] },
+      { item: 'path', patterns: ['shop.example.com/checkout/**'] },
+      { item: 'query', patterns: ['shop.example.com/checkout/**?step=2'] },
+    ]);
+    expect(result.best?.item).toBe('query');
+    expect(result.matches.map((m) => m.item)).toEqual(['query', 'path', 'host', 'any']);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('uses the best pattern of each candidate', () => {
+    const result = resolveUrl('https://example.com/a', [
+      { item: 'one', patterns: ['*.example.com', 'example.com/a'] },
+    ]);
+    expect(result.best?.pattern).toBe('example.com/a');
+  });
+
+  it('reports ties as conflicts', () => {
+    const result = resolveUrl('https://example.com/a', [
+      { item: 'first', patterns: ['example.com/*'] },
+      { item: 'second', patterns: ['example.com/*'] },
+    ]);
+    expect(result.best).toBeNull();
+    expect(result.conflicts.map((m) => m.item)).toEqual(['first', 'second']);
+    expect(describeUrlConflict('https://example.com/a', result.conflicts)).toContain(
+      '2 mappings match https://example.com/a equally well',
+    );
+  });
+
+  it('returns no match when nothing fits', () => {
+    const result = resolveUrl('https://other.org/', [{ item: 'x', patterns: ['example.com'] }]);
+    expect(result).toEqual({ best: null, matches: [], conflicts: [] });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * URL patterns that decide which mapping applies to a page. Shared by the
+ * content script and the CLI.
+ *
+ *   shop.example.com                      any page on the host, http or https
+ *   https://*.example.com/checkout/**     the host and its subdomains, any depth below /checkout/
+ *   example.com/orders/*                  one path segment: /orders/42 but not /orders/42/edit
+ *   example.com/signup?step=2&!promo      query predicates: key=value, key!=value, key, !key
+ *   localhost:8080/form                   an explicit port
+ *
+ * Query values may use `*`. When several patterns match a page, the most
+ * specific wins: an exact host beats a wildcard host, then the longer
+ * literal path, then more query predicates, then an explicit scheme/port.
+ */
+export interface UrlPattern {
+  matches(url: string | URL): boolean;
+  /** Compared element by element; higher is more specific. */
+  specificity(): number[];
+  /** The pattern as written, trimmed. */
+  describe(): string;
+}
+
+export class UrlPatternError extends Error {
+  constructor(message: string, public readonly pattern: string) {
+    super(`${message} in URL pattern "${pattern}"`);
+    this.name = 'UrlPatternError';
+  }
+}
+
+type QueryPredicate =
+  | { kind: 'present' | 'absent'; key: string }
+  | { kind: 'equals' | 'differs'; key: string; value: RegExp };
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** `*` within a value, or `*` / `**` across path segments when `path` is set. */
+function globToRegExp(glob: string, path: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] !== '*') {
+      source += escapeRegExp(glob[i]);
+    } else if (path && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else {
+      source += path ? '[^/]*' : '.*';
+    }
+  }
+  /* "/checkout" also matches "/checkout/" */
+  if (path && !glob.endsWith('*')) source += '/?';
+  return new RegExp(`^${source}$`, path ? '' : 'i');
+}
+
+function parseQuery(query: string, pattern: string): QueryPredicate[] {
+  return query
+    .split('&')
+    .filter(Boolean)
+    .map((part): QueryPredicate => {
+      const decode = (s: string) => {
+        try {
+          return decodeURIComponent(s.replace(/\+/g, ' '));
+        } catch {
+          throw new UrlPatternError(`Bad escape in "${part}"`, pattern);
+        }
+      };
+      const op = /!=|=/.exec(part);
+      if (!op) {
+        return part.startsWith('!')
+          ? { kind: 'absent', key: decode(part.slice(1)) }
+          : { kind: 'present', key: decode(part) };
+      }
+      const key = decode(part.slice(0, op.index));
+      if (!key) throw new UrlPatternError(`Missing query key in "${part}"`, pattern);
+      const value = globToRegExp(decode(part.slice(op.index + op[0].length)), false);
+      return { kind: op[0] === '=' ? 'equals' : 'differs', key, value };
+    });
+}
+
+export function parseUrlPattern(source: string): UrlPattern {
+  const pattern = source.trim();
+  if (!pattern) throw new UrlPatternError('Empty pattern', source);
+
+  let rest = pattern;
+  let scheme: string | null = null;
+  const schemeMatch = /^([a-z*][a-z0-9+.-]*):\/\//i.exec(rest);
+  if (schemeMatch) {
+    scheme = schemeMatch[1] === '*' ? null : `${schemeMatch[1].toLowerCase()}:`;
+    rest = rest.slice(schemeMatch[0].length);
+  }
+
+  const queryAt = rest.indexOf('?');
+  const query = queryAt === -1 ? '' : rest.slice(queryAt + 1);
+  if (queryAt !== -1) rest = rest.slice(0, queryAt);
+  const pathAt = rest.indexOf('/');
+  const path = pathAt === -1 ? null : rest.slice(pathAt);
+  const authority = (pathAt === -1 ? rest : rest.slice(0, pathAt)).toLowerCase();
+
+  const hostPort = /^(\*|(?:\*\.)?[^:*/\s]+)(?::(\d+))?$/.exec(authority);
+  if (!hostPort) throw new UrlPatternError('Expected a host such as "example.com" or "*.example.com"', source);
+  const [, host, port] = hostPort;
+  const wildcardHost = host.startsWith('*');
+  const baseHost = host.replace(/^\*\.?/, '');
+
+  const pathRe = path === null ? null : globToRegExp(path, true);
+  const predicates = parseQuery(query, source);
+
+  return {
+    matches(input) {
+      let url: URL;
+      try {
+        url = typeof input === 'string' ? new URL(input) : input;
+      } catch {
+        return false;
+      }
+      if (scheme ? url.protocol !== scheme : !(url.protocol in DEFAULT_PORTS)) return false;
+      const hostname = url.hostname.toLowerCase();
+      if (host !== '*') {
+        const hostOk = wildcardHost
+          ? hostname === baseHost || hostname.endsWith(`.${baseHost}`)
+          : hostname === baseHost;
+        if (!hostOk) return false;
+      }
+      if (port && (url.port || DEFAULT_PORTS[url.protocol]) !== port) return false;
+      if (pathRe && !pathRe.test(decodeURI(url.pathname))) return false;
+      return predicates.every((p) => {
+        const values = url.searchParams.getAll(p.key);
+        switch (p.kind) {
+          case 'present':
+            return values.length > 0;
+          case 'absent':
+            return values.length === 0;
+          case 'equals':
+            return values.some((v) => p.value.test(v));
+          case 'differs':
+            return !values.some((v) => p.value.test(v));
+        }
+      });
+    },
+    specificity() {
+      const hostScore = host === '*' ? 0 : wildcardHost ? 1 : 2;
+      const literalPath = path === null ? 0 : path.replace(/\*/g, '').length;
+      return [hostScore, literalPath, predicates.length, (scheme ? 1 : 0) + (port ? 1 : 0)];
+    },
+    describe() {
+      return pattern;
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/* Resolution                                                                 */
+/* -------------------------------------------------------------------------- */
+
+export interface UrlCandidate<T> {
+  item: T;
+  patterns: string[];
+}
+
+export interface UrlMatch<T> {
+  item: T;
+  /** The candidate's most specific pattern that matched */
+  pattern: string;
+  specificity: number[];
+}
+
+export interface UrlResolution<T> {
+  /** The single most specific match, or null when none or a tie */
+  best: UrlMatch<T> | null;
+  /** Every matching candidate, most specific first */
+  matches: UrlMatch<T>[];
+  /** Candidates tied for most specific; empty unless ambiguous */
+  conflicts: UrlMatch<T>[];
+}
+
+function compareSpecificity(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const d = (b[i] ?? 0) - (a[i] ?? 0);
+    if (d !== 0) return d;
+  }
+  return 0;
+}
+
+/**
+ * Picks the candidate whose pattern best fits `url`. Invalid patterns
+ * throw `UrlPatternError`.
+ */
+export function resolveUrl<T>(url: string | URL, candidates: UrlCandidate<T>[]): UrlResolution<T> {
+  const matches: UrlMatch<T>[] = [];
+  for (const { item, patterns } of candidates) {
+    let best: UrlMatch<T> | null = null;
+    for (const source of patterns) {
+      const pattern = parseUrlPattern(source);
+      if (!pattern.matches(url)) continue;
+      const specificity = pattern.specificity();
+      if (!best || compareSpecificity(specificity, best.specificity) < 0) {
+        best = { item, pattern: pattern.describe(), specificity };
+      }
+    }
+    if (best) matches.push(best);
+  }
+  matches.sort((a, b) => compareSpecificity(a.specificity, b.specificity));
+
+  const top = matches.filter((m) => compareSpecificity(m.specificity, matches[0].specificity) === 0);
+  const conflicts = top.length > 1 ? top : [];
+  return { best: top.length === 1 ? top[0] : null, matches, conflicts };
+}
+
+/** Report for an ambiguous resolution, naming each tied candidate. */
+export function describeUrlConflict<T>(
+  url: string | URL,
+  conflicts: UrlMatch<T>[],
+  name: (item: T) => string = String,
+): string {
+  const lines = conflicts.map((m) => `  ${name(m.item)}  (pattern "${m.pattern}")`);
+  return [
+    `${conflicts.length} mappings match ${String(url)} equally well:`,
+    ...lines,
+    'Make one pattern more specific (path or query) or remove the overlap.',
+  ].join('\n');
+}
@@ -0,0 +1,50 @@
+import { renderTemplate, templateColumns, TemplateError, validateTemplate } from './valuetemplates.js';
+
+const row = { first_name: 'Ada', last_name: 'Lovelace', nickname: ' ', 'Company Name': 'Analytical Engines' };
+
+describe('renderTemplate', () => {
+  it('fills columns and copies literal text', () => {
+    expect(renderTemplate('{{first_name}} {{ last_name }}!', row)).toBe('Ada Lovelace!');
+    expect(renderTemplate('{{ [Company Name] | upper }}', row)).toBe('ANALYTICAL ENGINES');
+    expect(renderTemplate('\\{{first_name}}', row)).toBe('{{first_name}}');
+  });
+
+  it('falls back past missing and blank operands', () => {
+    expect(renderTemplate('{{ nickname ?? first_name ?? "friend" }}', row)).toBe('Ada');
+    expect(renderTemplate('{{ middle ?? "friend" }}', row)).toBe('friend');
+    expect(renderTemplate('{{ middle }}', row)).toBe('');
+  });
+
+  it('exposes the row number, clock and constants', () => {
+    const ctx = {
+      rowNumber: 7,
+      now: new Date(2024, 2, 5, 12, 0, 0),
+      constants: { CAMPAIGN: 'autumn' },
+    };
+    expect(renderTemplate('Ref-{{ $row }}-{{ $today | date(iso, "DDMMYYYY") }}', row, ctx)).toBe('Ref-7-05032024');
+    expect(renderTemplate('{{ $now }}', row, ctx)).toBe(ctx.now.toISOString());
+    expect(renderTemplate('{{ $const.CAMPAIGN ?? "spring" }}', row, ctx)).toBe('autumn');
+    expect(renderTemplate('{{ $const.MISSING ?? "spring" }}', row, ctx)).toBe('spring');
+  });
+
+  it('keeps "}}" inside quoted literals', () => {
+    expect(renderTemplate('{{ "a}}b" }}', row)).toBe('a}}b');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('reports parse errors with their position', () => {
+    expect(() => validateTemplate('Hi {{first_name')).toThrow('Unclosed "{{" (at position 4)');
+    expect(() => validateTemplate('{{ $nope }}')).toThrow('Unknown variable "$nope" (at position 4)');
+    expect(() => validateTemplate('{{ [ ] }}')).toThrow('Empty column name');
+    expect(() => validateTemplate('{{ a b }}')).toThrow('Unexpected "b"');
+    expect(() => validateTemplate('{{ a | shout }}')).toThrow(TemplateError);
+    expect(() => validateTemplate('{{ a | shout }}')).toThrow('Invalid transform: Unknown transform "shout" (at position 8)');
+  });
+});
+
+describe('templateColumns', () => {
+  it('lists each column read once', () => {
+    expect(templateColumns('{{a ?? b}} {{ [c d] | join(" ", "e") }} {{a}} {{$row}} {{"lit"}}')).toEqual(['a', 'b', 'c d']);
+  });
+});
@@ -0,0 +1,255 @@
+import { applyTransforms, TransformError, validateTransforms } from './valuetransforms.js';
+
+/**
+ * Templated mapping values. Text outside `{{ }}` is copied literally;
+ * each placeholder is an expression over the row:
+ *
+ *   {{first_name}} {{last_name}}
+ *   {{ nickname ?? first_name ?? "friend" }}
+ *   {{ [Company Name] | upper }}
+ *   Ref-{{ $row }}-{{ $today | date(iso, "DDMMYYYY") }}
+ *   {{ $const.CAMPAIGN ?? "spring" }}
+ *
+ * Operands are column names (bracketed when they contain spaces), quoted
+ * literals, numbers and the variables `$row`, `$today`, `$now` and
+ * `$const.NAME`. `a ?? b` falls back to `b` when `a` is missing or blank.
+ * A trailing `| ...` runs a transform pipeline (see valuetransforms.ts).
+ * Templates are parsed, never evaluated as code.
+ */
+
+export interface TemplateContext {
+  /** Row number or id, exposed as `$row`. */
+  rowNumber?: string | number;
+  /** Clock for `$today` / `$now`. Defaults to the current time. */
+  now?: Date;
+  /** Constants supplied by the environment (CLI config, extension settings). */
+  constants?: Record<string, string>;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position + 1})`);
+    this.name = 'TemplateError';
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* AST                                                                        */
+/* -------------------------------------------------------------------------- */
+
+type Operand =
+  | { kind: 'column'; name: string }
+  | { kind: 'literal'; value: string }
+  | { kind: 'var'; name: 'row' | 'today' | 'now' }
+  | { kind: 'const'; name: string };
+
+interface Placeholder {
+  operands: Operand[];
+  pipeline?: string;
+}
+
+type Part = string | Placeholder;
+
+const VARIABLES = new Set(['row', 'today', 'now']);
+
+/* -------------------------------------------------------------------------- */
+/* Parser                                                                     */
+/* -------------------------------------------------------------------------- */
+
+function parsePlaceholder(src: string, offset: number): Placeholder {
+  let i = 0;
+  const skip = () => {
+    while (i < src.length && /\s/.test(src[i])) i++;
+  };
+  const fail = (message: string): never => {
+    throw new TemplateError(message, offset + i);
+  };
+
+  const operand = (): Operand => {
+    skip();
+    const ch = src[i];
+    const start = i;
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < src.length && src[i] !== ch) {
+        if (src[i] === '\\' && i + 1 < src.length) i++;
+        value += src[i++];
+      }
+      if (i >= src.length) fail('Unterminated string');
+      i++;
+      return { kind: 'literal', value };
+    }
+
+    if (ch === '[') {
+      const close = src.indexOf(']', i);
+      if (close === -1) fail('Unterminated column name');
+      const name = src.slice(i + 1, close).trim();
+      if (!name) fail('Empty column name');
+      i = close + 1;
+      return { kind: 'column', name };
+    }
+
+    if (ch === '$') {
+      i++;
+      while (i < src.length && /[\w.]/.test(src[i])) i++;
+      const name = src.slice(start + 1, i);
+      if (name.startsWith('const.') && name.length > 6) {
+        return { kind: 'const', name: name.slice(6) };
+      }
+      if (!VARIABLES.has(name)) {
+        i = start;
+        fail(`Unknown variable "$${name}"`);
+      }
+      return { kind: 'var', name: name as 'row' | 'today' | 'now' };
+    }
+
+    while (i < src.length && /[\w.-]/.test(src[i])) i++;
+    const word = src.slice(start, i);
+    if (!word) fail(i < src.length ? `Unexpected "${src[i]}"` : 'Expected a column, literal or variable');
+    return /^-?\d+(\.\d+)?$/.test(word)
+      ? { kind: 'literal', value: word }
+      : { kind: 'column', name: word };
+  };
+
+  const operands = [operand()];
+  skip();
+  while (src.startsWith('??', i)) {
+    i += 2;
+    operands.push(operand());
+    skip();
+  }
+
+  if (i >= src.length) return { operands };
+  if (src[i] !== '|') fail(`Unexpected "${src[i]}"`);
+  const pipeline = src.slice(i + 1);
+  try {
+    validateTransforms(pipeline);
+  } catch (err) {
+    if (!(err instanceof TransformError)) throw err;
+    throw new TemplateError(`Invalid transform: ${err.detail}`, offset + i + 1 + (err.position ?? 0));
+  }
+  return { operands, pipeline };
+}
+
+/** Index of the `}}` closing a placeholder, skipping quoted text. */
+function findClose(template: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < template.length; i++) {
+    const ch = template[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '}' && template[i + 1] === '}') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseTemplate(template: string): Part[] {
+  const parts: Part[] = [];
+  let text = '';
+  let i = 0;
+  while (i < template.length) {
+    if (template.startsWith('\\{{', i)) {
+      text += '{{';
+      i += 3;
+      continue;
+    }
+    if (!template.startsWith('{{', i)) {
+      text += template[i++];
+      continue;
+    }
+
+    const close = findClose(template, i + 2);
+    if (close === -1) throw new TemplateError('Unclosed "{{"', i);
+    if (text) parts.push(text);
+    text = '';
+    parts.push(parsePlaceholder(template.slice(i + 2, close), i + 2));
+    i = close + 2;
+  }
+  if (text) parts.push(text);
+  return parts;
+}
+
+const compiled = new Map<string, Part[]>();
+
+function compile(template: string): Part[] {
+  let parts = compiled.get(template);
+  if (!parts) {
+    parts = parseTemplate(template);
+    compiled.set(template, parts);
+  }
+  return parts;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Rendering                                                                  */
+/* -------------------------------------------------------------------------- */
+
+function localDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function operandValue(op: Operand, row: Record<string, string>, ctx: TemplateContext): string {
+  switch (op.kind) {
+    case 'literal':
+      return op.value;
+    case 'column':
+      return row[op.name] ?? '';
+    case 'const':
+      return ctx.constants?.[op.name] ?? '';
+    case 'var': {
+      if (op.name === 'row') return ctx.rowNumber === undefined ? '' : String(ctx.rowNumber);
+      const now = ctx.now ?? new Date();
+      return op.name === 'today' ? localDate(now) : now.toISOString();
+    }
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Public API                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Throws `TemplateError` if the template does not parse.
+ */
+export function validateTemplate(template: string): void {
+  compile(template);
+}
+
+/** Columns a template reads, for validation and previews. */
+export function templateColumns(template: string): string[] {
+  const columns = new Set<string>();
+  for (const part of compile(template)) {
+    if (typeof part === 'string') continue;
+    for (const op of part.operands) if (op.kind === 'column') columns.add(op.name);
+  }
+  return [...columns];
+}
+
+export function renderTemplate(
+  template: string,
+  row: Record<string, string>,
+  ctx: TemplateContext = {},
+): string {
+  let out = '';
+  for (const part of compile(template)) {
+    if (typeof part === 'string') {
+      out += part;
+      continue;
+    }
+    let value = '';
+    for (const op of part.operands) {
+      value = operandValue(op, row, ctx);
+      if (value.trim() !== '') break;
+    }
+    out += part.pipeline ? applyTransforms(value, part.pipeline, row) : value;
+  }
+  return out;
+}
@@ -0,0 +1,75 @@
+import { applyTransforms, TransformError, transformNames, validateTransforms } from './valuetransforms.js';
+
+describe('applyTransforms', () => {
+  it('runs steps left to right', () => {
+    expect(applyTransforms('  ada   LOVELACE ', 'trim | title')).toBe('Ada Lovelace');
+    expect(applyTransforms('o’neil-smith', 'title')).toBe('O’neil-Smith');
+    expect(applyTransforms('abc', 'upper | lower | capitalize')).toBe('Abc');
+    expect(applyTransforms('x', '')).toBe('x');
+  });
+
+  it('replaces literal text or regex matches', () => {
+    expect(applyTransforms('+44 (0) 20-7946', 'replace(/[^0-9]/g, "")')).toBe('440207946');
+    expect(applyTransforms('a.b.c', 'replace(".", "-")')).toBe('a-b-c');
+    expect(applyTransforms('a/b', String.raw`replace(/[\/]/, "|")`)).toBe('a|b');
+  });
+
+  it('reformats dates, including month names', () => {
+    expect(applyTransforms('31/01/2024', 'date("DD/MM/YYYY", "YYYY-MM-DD")')).toBe('2024-01-31');
+    expect(applyTransforms('2024-03-05', 'date("iso", "D MMMM YY")')).toBe('5 March 24');
+    expect(applyTransforms('5 Mär 2024', 'date("D MMM YYYY", "iso", "de")')).toBe('2024-03-05');
+    expect(applyTransforms(' ', 'date("DD/MM/YYYY", "iso")')).toBe(' ');
+    expect(() => applyTransforms('31/02/2024', 'date("DD/MM/YYYY", "iso")')).toThrow(
+      'date: "31/02/2024" is not a valid date for format DD/MM/YYYY',
+    );
+  });
+
+  it('normalises phone numbers to E.164', () => {
+    expect(applyTransforms('020 7946 0958', 'phone("GB")')).toBe('+442079460958');
+    expect(applyTransforms('0049 30 123456', 'phone("GB")')).toBe('+4930123456');
+    expect(applyTransforms('(555) 010-9999', 'phone')).toBe('+15550109999');
+    expect(() => applyTransforms('12', 'phone("GB")')).toThrow('is not a valid phone number');
+    expect(() => applyTransforms('123456789', 'phone("XX")')).toThrow('no calling code for "XX"');
+  });
+
+  it('parses grouped numbers and formats them', () => {
+    expect(applyTransforms('1,234.5', 'number')).toBe('1234.5');
+    expect(applyTransforms('1.234,5', 'number(2)')).toBe('1234.50');
+    expect(applyTransforms('1 234,5', 'number(2, "de-DE")')).toBe('1.234,50');
+    expect(applyTransforms('3,5', 'number')).toBe('3.5');
+    expect(() => applyTransforms('abc', 'number')).toThrow('number: "abc" is not a number');
+  });
+
+  it('splits values and picks name parts', () => {
+    expect(applyTransforms('a; b ;c', 'split(";", 1)')).toBe('b');
+    expect(applyTransforms('a;b;c', 'split(";", -1)')).toBe('c');
+    expect(applyTransforms('Ada King Lovelace', 'name("middle")')).toBe('King');
+    expect(applyTransforms('Lovelace, Ada', 'name("first")')).toBe('Ada');
+    expect(applyTransforms('Ada', 'name("last")')).toBe('');
+  });
+
+  it('joins other columns of the row, skipping blanks', () => {
+    const row = { last_name: 'Lovelace', suffix: '' };
+    expect(applyTransforms('Ada', 'join(" ", "last_name", "suffix")', row)).toBe('Ada Lovelace');
+  });
+});
+
+describe('validateTransforms', () => {
+  it('accepts every registered transform name', () => {
+    expect(transformNames()).toEqual(expect.arrayContaining(['trim', 'date', 'phone', 'join']));
+  });
+
+  it('rejects pipelines that do not parse, with the position', () => {
+    expect(() => validateTransforms('trim | shout')).toThrow('Unknown transform "shout" (at position 8)');
+    expect(() => validateTransforms('trim trim')).toThrow('Expected "|" but found "t"');
+    expect(() => validateTransforms('replace("a')).toThrow('Unterminated string');
+    expect(() => validateTransforms('replace(/a')).toThrow('Unterminated regex');
+    expect(() => validateTransforms('replace(/(/)')).toThrow(TransformError);
+  });
+
+  it('reports bad arguments when the step runs', () => {
+    expect(() => applyTransforms('a', 'name("nick")')).toThrow('name: name() expects "first", "middle" or "last"');
+    expect(() => applyTransforms('a', 'split(",", "x")')).toThrow('split() argument 2 must be a number');
+    expect(() => applyTransforms('a', 'split')).toThrow('split() expects argument 1');
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Per-field value transforms, declared on a mapping entry as a pipeline:
+ *
+ *   trim | title
+ *   date("DD/MM/YYYY", "YYYY-MM-DD")
+ *   phone("GB")
+ *   replace(/[^0-9]/g, "") | number(2, "de-DE")
+ *   name("first")
+ *   join(" ", "last_name")
+ *
+ * Steps run left to right on the cell's string value. Arguments are quoted
+ * strings, numbers or `/regex/flags` literals. The same pipeline runs in
+ * the extension (FormFiller, content script) and in the CLI runner.
+ */
+
+export type TransformRow = Record<string, string>;
+
+type Arg = string | number | RegExp;
+type TransformFn = (value: string, args: Arg[], row: TransformRow) => string;
+
+export class TransformError extends Error {
+  /** `detail` is the message without the position suffix. */
+  constructor(public readonly detail: string, public readonly position?: number) {
+    super(position === undefined ? detail : `${detail} (at position ${position + 1})`);
+    this.name = 'TransformError';
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function str(args: Arg[], i: number, step: string, fallback?: string): string {
+  const arg = args[i];
+  if (arg === undefined) {
+    if (fallback !== undefined) return fallback;
+    throw new TransformError(`${step}() expects argument ${i + 1}`);
+  }
+  if (arg instanceof RegExp) throw new TransformError(`${step}() argument ${i + 1} must not be a regex`);
+  return String(arg);
+}
+
+function num(args: Arg[], i: number, step: string, fallback: number): number {
+  const arg = args[i];
+  if (arg === undefined) return fallback;
+  const n = Number(arg);
+  if (arg instanceof RegExp || !Number.isFinite(n)) {
+    throw new TransformError(`${step}() argument ${i + 1} must be a number`);
+  }
+  return n;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Dates                                                                      */
+/* -------------------------------------------------------------------------- */
+
+const DATE_TOKEN_RE = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+
+function monthNames(locale: string, style: 'long' | 'short'): string[] {
+  const fmt = new Intl.DateTimeFormat(locale, { month: style, timeZone: 'UTC' });
+  return Array.from({ length: 12 }, (_, m) => fmt.format(new Date(Date.UTC(2000, m, 1))));
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Parses `value` against a token pattern such as `DD.MM.YYYY`. */
+function parseDate(value: string, pattern: string, locale: string): Date {
+  if (pattern.toLowerCase() === 'iso') pattern = 'YYYY-MM-DD';
+
+  const fields: string[] = [];
+  let source = '';
+  let last = 0;
+  for (const m of pattern.matchAll(DATE_TOKEN_RE)) {
+    source += escapeRegex(pattern.slice(last, m.index));
+    last = m.index! + m[0].length;
+    fields.push(m[0]);
+    source += m[0] === 'YYYY' ? '(\\d{4})' : m[0].startsWith('MMM') ? '([^\\d\\s.,/-]+)\\.?' : '(\\d{1,2})';
+  }
+  source += escapeRegex(pattern.slice(last));
+
+  const match = new RegExp(`^\\s*${source}\\s*$`, 'i').exec(value);
+  if (!match) throw new TransformError(`"${value}" does not match date format ${pattern}`);
+
+  let year = NaN;
+  let month = NaN;
+  let day = 1;
+  fields.forEach((field, i) => {
+    const part = match[i + 1];
+    if (field === 'YYYY') year = Number(part);
+    else if (field === 'YY') year = 2000 + Number(part) - (Number(part) > 69 ? 100 : 0);
+    else if (field === 'DD' || field === 'D') day = Number(part);
+    else if (field === 'MM' || field === 'M') month = Number(part);
+    else {
+      const names = monthNames(locale, field === 'MMMM' ? 'long' : 'short').map((n) =>
+        n.toLowerCase().replace(/\.$/, ''),
+      );
+      month = names.indexOf(part.toLowerCase()) + 1 || NaN;
+    }
+  });
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new TransformError(`"${value}" is not a valid date for format ${pattern}`);
+  }
+  return date;
+}
+
+function formatDate(date: Date, pattern: string, locale: string): string {
+  if (pattern.toLowerCase() === 'iso') pattern = 'YYYY-MM-DD';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return pattern.replace(DATE_TOKEN_RE, (token) => {
+    switch (token) {
+      case 'YYYY':
+        return String(date.getUTCFullYear());
+      case 'YY':
+        return pad(date.getUTCFullYear() % 100);
+      case 'MMMM':
+        return monthNames(locale, 'long')[date.getUTCMonth()];
+      case 'MMM':
+        return monthNames(locale, 'short')[date.getUTCMonth()];
+      case 'MM':
+        return pad(date.getUTCMonth() + 1);
+      case 'M':
+        return String(date.getUTCMonth() + 1);
+      case 'DD':
+        return pad(date.getUTCDate());
+      default:
+        return String(date.getUTCDate());
+    }
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/* Phone numbers                                                              */
+/* -------------------------------------------------------------------------- */
+
+/* Calling codes for the countries we see most; others can pass "+<code>" */
+const CALLING_CODES: Record<string, string> = {
+  US: '1', CA: '1', GB: '44', IE: '353', FR: '33', DE: '49', AT: '43', CH: '41',
+  NL: '31', BE: '32', LU: '352', ES: '34', PT: '351', IT: '39', DK: '45', SE: '46',
+  NO: '47', FI: '358', PL: '48', CZ: '420', GR: '30', AU: '61', NZ: '64', IN: '91',
+  JP: '81', CN: '86', BR: '55', MX: '52', ZA: '27', IL: '972', AE: '971', SG: '65',
+};
+
+function toE164(value: string, country: string): string {
+  const raw = value.trim();
+  let digits = raw.replace(/(?!^\+)[^\d]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+
+  if (!digits.startsWith('+')) {
+    const code = country.startsWith('+') ? country.slice(1) : CALLING_CODES[country.toUpperCase()];
+    if (!code) throw new TransformError(`phone() has no calling code for "${country}"`);
+    const national = digits.replace(/^0+/, '');
+    digits = national.startsWith(code) && national.length > 10 ? `+${national}` : `+${code}${national}`;
+  }
+
+  if (!/^\+[1-9]\d{6,14}$/.test(digits)) {
+    throw new TransformError(`"${value}" is not a valid phone number`);
+  }
+  return digits;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Numbers and names                                                          */
+/* -------------------------------------------------------------------------- */
+
+/** Accepts `1,234.5`, `1.234,5`, `1 234,5` and plain numbers. */
+function parseNumber(value: string): number {
+  let text = value.replace(/[\s '’]/g, '').replace(/[^\d.,+-]/g, '');
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const group = decimal === '.' ? ',' : '.';
+    text = text.split(group).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    /* A lone comma followed by exactly three digits is a thousands separator */
+    const groups = text.split(',');
+    text = groups.length > 2 || /^\d{3}$/.test(groups[1]) ? groups.join('') : text.replace(',', '.');
+  }
+  const n = Number(text);
+  if (text === '' || !Number.isFinite(n)) {
+    throw new TransformError(`"${value}" is not a number`);
+  }
+  return n;
+}
+
+function nameParts(value: string): { first: string; middle: string; last: string } {
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  /* "Lovelace, Ada King" */
+  const comma = trimmed.indexOf(',');
+  const ordered =
+    comma === -1 ? trimmed : `${trimmed.slice(comma + 1).trim()} ${trimmed.slice(0, comma).trim()}`;
+  const words = ordered.split(' ').filter(Boolean);
+  if (words.length <= 1) return { first: words[0] ?? '', middle: '', last: '' };
+  return {
+    first: words[0],
+    middle: words.slice(1, -1).join(' '),
+    last: words[words.length - 1],
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/* Transform registry                                                         */
+/* -------------------------------------------------------------------------- */
+
+const TRANSFORMS: Record<string, TransformFn> = {
+  trim: (v) => v.trim().replace(/\s+/g, ' '),
+  upper: (v) => v.toUpperCase(),
+  lower: (v) => v.toLowerCase(),
+  title: (v) => v.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase()),
+  capitalize: (v) => v.charAt(0).toUpperCase() + v.slice(1),
+
+  replace: (v, args) => {
+    const pattern = args[0];
+    const replacement = str(args, 1, 'replace', '');
+    if (pattern instanceof RegExp) return v.replace(pattern, replacement);
+    return v.split(str(args, 0, 'replace')).join(replacement);
+  },
+
+  date: (v, args) => {
+    if (v.trim() === '') return v;
+    const locale = str(args, 2, 'date', 'en');
+    return formatDate(parseDate(v, str(args, 0, 'date'), locale), str(args, 1, 'date'), locale);
+  },
+
+  phone: (v, args) => (v.trim() === '' ? v : toE164(v, str(args, 0, 'phone', 'US'))),
+
+  number: (v, args) => {
+    if (v.trim() === '') return v;
+    const n = parseNumber(v);
+    const decimals = args[0] === undefined ? undefined : num(args, 0, 'number', 0);
+    const locale = args[1] === undefined ? undefined : str(args, 1, 'number');
+    if (!locale) return decimals === undefined ? String(n) : n.toFixed(decimals);
+    return new Intl.NumberFormat(locale, {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals ?? 20,
+    }).format(n);
+  },
+
+  split: (v, args) => {
+    const parts = v.split(str(args, 0, 'split'));
+    const index = num(args, 1, 'split', 0);
+    return (parts[index < 0 ? parts.length + index : index] ?? '').trim();
+  },
+
+  name: (v, args) => {
+    const part = str(args, 0, 'name');
+    if (part !== 'first' && part !== 'middle' && part !== 'last') {
+      throw new TransformError(`name() expects "first", "middle" or "last", got "${part}"`);
+    }
+    return nameParts(v)[part];
+  },
+
+  join: (v, args, row) => {
+    const separator = str(args, 0, 'join');
+    const others = args.slice(1).map((_, i) => row[str(args, i + 1, 'join')] ?? '');
+    return [v, ...others].filter((s) => s.trim() !== '').join(separator);
+  },
+};
+
+/* -------------------------------------------------------------------------- */
+/* Pipeline parser                                                            */
+/* -------------------------------------------------------------------------- */
+
+interface Step {
+  name: string;
+  fn: TransformFn;
+  args: Arg[];
+}
+
+class PipelineParser {
+  private i = 0;
+
+  constructor(private readonly src: string) {}
+
+  parse(): Step[] {
+    const steps: Step[] = [];
+    this.skipSpace();
+    if (this.i >= this.src.length) return steps;
+    for (;;) {
+      steps.push(this.step());
+      this.skipSpace();
+      if (this.i >= this.src.length) return steps;
+      this.expect('|');
+    }
+  }
+
+  private step(): Step {
+    this.skipSpace();
+    const start = this.i;
+    while (this.i < this.src.length && /[A-Za-z0-9_]/.test(this.src[this.i])) this.i++;
+    const name = this.src.slice(start, this.i);
+    if (!name) throw new TransformError('Expected a transform name', start);
+    const fn = TRANSFORMS[name];
+    if (!fn) throw new TransformError(`Unknown transform "${name}"`, start);
+
+    const args: Arg[] = [];
+    this.skipSpace();
+    if (this.src[this.i] === '(') {
+      this.i++;
+      this.skipSpace();
+      if (this.src[this.i] === ')') {
+        this.i++;
+      } else {
+        for (;;) {
+          args.push(this.arg());
+          this.skipSpace();
+          if (this.src[this.i] === ')') {
+            this.i++;
+            break;
+          }
+          this.expect(',');
+        }
+      }
+    }
+    return { name, fn, args };
+  }
+
+  private arg(): Arg {
+    this.skipSpace();
+    const start = this.i;
+    const ch = this.src[this.i];
+
+    if (ch === '"' || ch === "'") {
+      let text = '';
+      this.i++;
+      while (this.i < this.src.length && this.src[this.i] !== ch) {
+        if (this.src[this.i] === '\\' && this.i + 1 < this.src.length) this.i++;
+        text += this.src[this.i++];
+      }
+      if (this.i >= this.src.length) throw new TransformError('Unterminated string', start);
+      this.i++;
+      return text;
+    }
+
+    if (ch === '/') {
+      let body = '';
+      let inClass = false;
+      this.i++;
+      while (this.i < this.src.length && (this.src[this.i] !== '/' || inClass)) {
+        const c = this.src[this.i];
+        if (c === '\\' && this.i + 1 < this.src.length) {
+          body += c + this.src[this.i + 1];
+          this.i += 2;
+          continue;
+        }
+        if (c === '[') inClass = true;
+        else if (c === ']') inClass = false;
+        body += c;
+        this.i++;
+      }
+      if (this.i >= this.src.length) throw new TransformError('Unterminated regex', start);
+      this.i++;
+      const flagStart = this.i;
+      while (/[a-z]/.test(this.src[this.i] ?? '')) this.i++;
+      try {
+        return new RegExp(body, this.src.slice(flagStart, this.i));
+      } catch (err) {
+        throw new TransformError(`Invalid regex: ${(err as Error).message}`, start);
+      }
+    }
+
+    while (this.i < this.src.length && !/[\s,)]/.test(this.src[this.i])) this.i++;
+    const word = this.src.slice(start, this.i);
+    if (!word) throw new TransformError('Expected an argument', start);
+    const n = Number(word);
+    return Number.isFinite(n) ? n : word;
+  }
+
+  private expect(ch: string): void {
+    this.skipSpace();
+    if (this.src[this.i] !== ch) {
+      const found = this.i < this.src.length ? `"${this.src[this.i]}"` : 'end of input';
+      throw new TransformError(`Expected "${ch}" but found ${found}`, this.i);
+    }
+    this.i++;
+  }
+
+  private skipSpace(): void {
+    while (this.i < this.src.length && /\s/.test(this.src[this.i])) this.i++;
+  }
+}
+
+const compiled = new Map<string, Step[]>();
+
+function compile(pipeline: string): Step[] {
+  let steps = compiled.get(pipeline);
+  if (!steps) {
+    steps = new PipelineParser(pipeline).parse();
+    compiled.set(pipeline, steps);
+  }
+  return steps;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Public API                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Throws `TransformError` if the pipeline does not parse, so mapping files
+ * can be rejected at load time rather than mid-run.
+ */
+export function validateTransforms(pipeline: string): void {
+  compile(pipeline);
+}
+
+/** Names accepted in a pipeline, for editors and error messages. */
+export function transformNames(): string[] {
+  return Object.keys(TRANSFORMS);
+}
+
+/**
+ * Runs `value` through the pipeline. `row` feeds steps that read other
+ * columns, such as `join`. Step failures are rethrown as `TransformError`
+ * naming the step.
+ */
+export function applyTransforms(value: string, pipeline: string, row: TransformRow = {}): string {
+  let out = value;
+  for (const step of compile(pipeline)) {
+    try {
+      out = step.fn(out, step.args, row);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new TransformError(`${step.name}: ${message}`);
+    }
+  }
+  return out;
+}
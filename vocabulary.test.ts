@@ -0,0 +1,50 @@
+import { defaultVocabulary, normalizeLabel, tokenizeLabel, validatePack, Vocabulary } from './vocabulary.js';
+
+describe('tokenizeLabel', () => {
+  it('splits camelCase, snake_case and dotted names', () => {
+    expect(tokenizeLabel('firstName')).toEqual(['first', 'name']);
+    expect(tokenizeLabel('billing_address.zipCode2')).toEqual(['billing', 'address', 'zip', 'code2']);
+    expect(tokenizeLabel('E-mail *:')).toEqual(['e', 'mail']);
+  });
+
+  it('folds accents on Latin letters only', () => {
+    expect(tokenizeLabel('Prénom')).toEqual(['prenom']);
+    expect(normalizeLabel('Straße')).toBe('straße');
+    expect(normalizeLabel('Имя (обязательно)')).toBe('имя обязательно');
+    expect(normalizeLabel('メールアドレス')).toBe('メールアドレス');
+  });
+
+  it('keeps unspaced scripts as one token', () => {
+    expect(tokenizeLabel('電話番号')).toEqual(['電話番号']);
+  });
+});
+
+describe('Vocabulary', () => {
+  it('relates labels across languages', () => {
+    expect(defaultVocabulary.related('Surname', 'Nachname')).toBe(true);
+    expect(defaultVocabulary.related('Vorname', 'first_name')).toBe(true);
+    expect(defaultVocabulary.related('Email', 'Phone')).toBe(false);
+  });
+
+  it('counts only the longest matching phrase', () => {
+    expect(defaultVocabulary.concepts('First name')).toEqual(new Set(['first_name']));
+  });
+
+  it('finds phrases inside unspaced text', () => {
+    expect(defaultVocabulary.concepts('ご住所を入力')).toEqual(new Set(['street']));
+  });
+
+  it('extends a vocabulary with another pack', () => {
+    const vocabulary = new Vocabulary([{ locale: 'en', concepts: { email: ['email'] } }]);
+    expect(vocabulary.related('Inbox', 'E-mail')).toBe(false);
+    vocabulary.add({ locale: 'x-acme', concepts: { email: ['inbox'] } });
+    expect(vocabulary.related('Inbox', 'E-mail')).toBe(true);
+    expect(vocabulary.locales()).toEqual(['en', 'x-acme']);
+  });
+
+  it('rejects malformed packs', () => {
+    expect(() => validatePack({ concepts: {} })).toThrow('needs a "locale" string');
+    expect(() => validatePack({ locale: 'x', concepts: [] })).toThrow('Vocabulary pack "x" needs a "concepts" object.');
+    expect(() => validatePack({ locale: 'x', concepts: { id: [1] } })).toThrow('concept "id" must list strings');
+  });
+});
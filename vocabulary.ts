@@ -0,0 +1,395 @@
+/**
+ * Synonym vocabulary for auto-mapping. Phrases are grouped under a concept
+ * id ("last_name"), so "Surname", "Nachname" and "姓" all resolve to the
+ * same concept and match each other even though no token is shared.
+ *
+ * Built-in packs cover the locales we translate the UI into. Teams add
+ * their own phrasing with a pack of the same shape:
+ *
+ *   { "locale": "x-acme", "concepts": { "customer_id": ["client no", "Kundennummer"] } }
+ *
+ * Packs merge: a team pack may extend a built-in concept or add new ones.
+ */
+
+export interface VocabularyPack {
+  /** BCP 47 tag, or an `x-` private tag for team packs */
+  locale: string;
+  concepts: Record<string, string[]>;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Unicode tokenisation                                                       */
+/* -------------------------------------------------------------------------- */
+
+/* Scripts written without spaces; matched by substring rather than token */
+const UNSPACED_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Lower-cases, splits camelCase / snake_case / dotted names and drops
+ * punctuation while keeping letters of every script ("Straße", "Имя",
+ * "電話番号"). Accents are folded on Latin letters only, so kana and
+ * other scripts keep their combining marks.
+ */
+export function normalizeLabel(text: string): string {
+  return text
+    .replace(/(\p{Ll}|\p{N})(\p{Lu})/gu, '$1 $2')
+    .normalize('NFKD')
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function tokenizeLabel(text: string): string[] {
+  return normalizeLabel(text).split(' ').filter(Boolean);
+}
+
+/* -------------------------------------------------------------------------- */
+/* Vocabulary                                                                 */
+/* -------------------------------------------------------------------------- */
+
+interface Phrase {
+  concept: string;
+  tokens: string[];
+  compact: string;
+  unspaced: boolean;
+}
+
+export class Vocabulary {
+  private readonly phrases: Phrase[] = [];
+  private readonly packs: VocabularyPack[] = [];
+  private readonly cache = new Map<string, Set<string>>();
+
+  constructor(packs: VocabularyPack[] = []) {
+    packs.forEach((pack) => this.add(pack));
+  }
+
+  add(pack: VocabularyPack): this {
+    validatePack(pack);
+    this.packs.push(pack);
+    this.cache.clear();
+    for (const [concept, phrases] of Object.entries(pack.concepts)) {
+      for (const phrase of phrases) {
+        const tokens = tokenizeLabel(phrase);
+        if (tokens.length === 0) continue;
+        const compact = tokens.join('');
+        this.phrases.push({ concept, tokens, compact, unspaced: UNSPACED_RE.test(compact) });
+      }
+    }
+    return this;
+  }
+
+  locales(): string[] {
+    return [...new Set(this.packs.map((p) => p.locale))];
+  }
+
+  /**
+   * Concepts `text` expresses. Only the longest matching phrases count, so
+   * "First name" yields `first_name` and not also the `name` it contains.
+   */
+  concepts(text: string): Set<string> {
+    const cached = this.cache.get(text);
+    if (cached) return cached;
+    const found = this.match(tokenizeLabel(text));
+    this.cache.set(text, found);
+    return found;
+  }
+
+  /** True when both texts resolve to a common concept. */
+  related(a: string, b: string): boolean {
+    const left = this.concepts(a);
+    if (left.size === 0) return false;
+    for (const concept of this.concepts(b)) if (left.has(concept)) return true;
+    return false;
+  }
+
+  private match(tokens: string[]): Set<string> {
+    const compact = tokens.join('');
+    if (!compact) return new Set();
+
+    let bestLength = 0;
+    let found = new Set<string>();
+    for (const phrase of this.phrases) {
+      const matched = phrase.unspaced
+        ? compact.includes(phrase.compact)
+        : containsRun(tokens, phrase.tokens) || compact === phrase.compact;
+      if (!matched) continue;
+      const length = phrase.compact.length;
+      if (length > bestLength) {
+        bestLength = length;
+        found = new Set([phrase.concept]);
+      } else if (length === bestLength) {
+        found.add(phrase.concept);
+      }
+    }
+    return found;
+  }
+}
+
+function containsRun(tokens: string[], run: string[]): boolean {
+  outer: for (let i = 0; i + run.length <= tokens.length; i++) {
+    for (let j = 0; j < run.length; j++) if (tokens[i + j] !== run[j]) continue outer;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Throws when `pack` is not a `VocabularyPack`, e.g. a hand-edited team file.
+ */
+export function validatePack(pack: unknown): asserts pack is VocabularyPack {
+  const p = pack as VocabularyPack;
+  if (!p || typeof p !== 'object' || typeof p.locale !== 'string' || !p.locale.trim()) {
+    throw new Error('Vocabulary pack needs a "locale" string.');
+  }
+  if (!p.concepts || typeof p.concepts !== 'object' || Array.isArray(p.concepts)) {
+    throw new Error(`Vocabulary pack "${p.locale}" needs a "concepts" object.`);
+  }
+  for (const [concept, phrases] of Object.entries(p.concepts)) {
+    if (!Array.isArray(phrases) || phrases.some((s) => typeof s !== 'string')) {
+      throw new Error(`Vocabulary pack "${p.locale}": concept "${concept}" must list strings.`);
+    }
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Built-in packs                                                             */
+/* -------------------------------------------------------------------------- */
+
+export const BUILTIN_PACKS: VocabularyPack[] = [
+  {
+    locale: 'en',
+    concepts: {
+      full_name: ['name', 'full name', 'your name'],
+      first_name: ['first name', 'given name', 'forename', 'fname'],
+      middle_name: ['middle name', 'middle initial'],
+      last_name: ['last name', 'surname', 'family name', 'lname'],
+      email: ['email', 'e mail', 'email address', 'mail'],
+      phone: ['phone', 'telephone', 'phone number', 'mobile', 'cell', 'tel'],
+      street: ['street', 'address', 'street address', 'address line 1', 'address1'],
+      address_line2: ['address line 2', 'address2', 'apartment', 'suite', 'apt'],
+      city: ['city', 'town', 'locality'],
+      postal_code: ['zip', 'zip code', 'zipcode', 'postal code', 'postcode', 'post code'],
+      state: ['state', 'province', 'region', 'county'],
+      country: ['country', 'nation'],
+      company: ['company', 'organization', 'organisation', 'employer', 'business name'],
+      job_title: ['job title', 'position', 'role'],
+      birth_date: ['date of birth', 'birth date', 'birthday', 'dob'],
+      gender: ['gender', 'sex'],
+      website: ['website', 'url', 'homepage', 'web site'],
+      message: ['message', 'comments', 'comment', 'notes', 'enquiry', 'inquiry'],
+      username: ['username', 'user name', 'login'],
+      password: ['password', 'passcode'],
+    },
+  },
+  {
+    locale: 'de',
+    concepts: {
+      full_name: ['name', 'vollständiger name'],
+      first_name: ['vorname', 'rufname'],
+      last_name: ['nachname', 'familienname', 'zuname'],
+      email: ['e mail', 'e mail adresse', 'email adresse'],
+      phone: ['telefon', 'telefonnummer', 'handy', 'mobilnummer', 'rufnummer'],
+      street: ['straße', 'strasse', 'adresse', 'anschrift', 'straße und hausnummer'],
+      city: ['stadt', 'ort', 'wohnort'],
+      postal_code: ['plz', 'postleitzahl'],
+      state: ['bundesland', 'region'],
+      country: ['land', 'staat'],
+      company: ['firma', 'unternehmen', 'firmenname'],
+      job_title: ['position', 'berufsbezeichnung'],
+      birth_date: ['geburtsdatum', 'geburtstag'],
+      gender: ['geschlecht', 'anrede'],
+      message: ['nachricht', 'kommentar', 'anmerkungen'],
+      username: ['benutzername'],
+      password: ['passwort', 'kennwort'],
+    },
+  },
+  {
+    locale: 'fr',
+    concepts: {
+      full_name: ['nom complet'],
+      first_name: ['prénom'],
+      last_name: ['nom', 'nom de famille'],
+      email: ['courriel', 'adresse e mail', 'adresse électronique'],
+      phone: ['téléphone', 'numéro de téléphone', 'portable', 'mobile'],
+      street: ['adresse', 'rue', 'adresse postale'],
+      city: ['ville', 'commune'],
+      postal_code: ['code postal', 'cp'],
+      state: ['région', 'département', 'province'],
+      country: ['pays'],
+      company: ['société', 'entreprise', 'organisme'],
+      job_title: ['fonction', 'poste'],
+      birth_date: ['date de naissance'],
+      gender: ['sexe', 'genre', 'civilité'],
+      message: ['message', 'commentaire', 'remarques'],
+      username: ['identifiant', "nom d'utilisateur"],
+      password: ['mot de passe'],
+    },
+  },
+  {
+    locale: 'es',
+    concepts: {
+      full_name: ['nombre completo'],
+      first_name: ['nombre', 'nombres'],
+      last_name: ['apellido', 'apellidos'],
+      email: ['correo', 'correo electrónico', 'email'],
+      phone: ['teléfono', 'móvil', 'celular', 'número de teléfono'],
+      street: ['dirección', 'calle', 'domicilio'],
+      city: ['ciudad', 'localidad', 'municipio'],
+      postal_code: ['código postal', 'cp'],
+      state: ['provincia', 'estado', 'región'],
+      country: ['país'],
+      company: ['empresa', 'compañía', 'organización'],
+      job_title: ['cargo', 'puesto'],
+      birth_date: ['fecha de nacimiento'],
+      gender: ['sexo', 'género'],
+      message: ['mensaje', 'comentarios'],
+      username: ['usuario', 'nombre de usuario'],
+      password: ['contraseña'],
+    },
+  },
+  {
+    locale: 'it',
+    concepts: {
+      first_name: ['nome'],
+      last_name: ['cognome'],
+      email: ['posta elettronica', 'indirizzo email'],
+      phone: ['telefono', 'cellulare', 'numero di telefono'],
+      street: ['indirizzo', 'via'],
+      city: ['città', 'comune'],
+      postal_code: ['cap', 'codice postale'],
+      state: ['provincia', 'regione'],
+      country: ['paese', 'nazione'],
+      company: ['azienda', 'società', 'ragione sociale'],
+      birth_date: ['data di nascita'],
+      gender: ['sesso', 'genere'],
+      message: ['messaggio', 'commenti'],
+      password: ['parola d ordine'],
+    },
+  },
+  {
+    locale: 'pt',
+    concepts: {
+      full_name: ['nome completo'],
+      first_name: ['nome', 'primeiro nome'],
+      last_name: ['sobrenome', 'apelido', 'último nome'],
+      email: ['e mail', 'correio eletrónico', 'correio eletrônico'],
+      phone: ['telefone', 'telemóvel', 'celular'],
+      street: ['endereço', 'morada', 'rua'],
+      city: ['cidade', 'localidade'],
+      postal_code: ['cep', 'código postal'],
+      state: ['estado', 'distrito'],
+      country: ['país'],
+      company: ['empresa', 'companhia'],
+      birth_date: ['data de nascimento'],
+      gender: ['sexo', 'gênero', 'género'],
+      message: ['mensagem', 'comentários'],
+      password: ['senha', 'palavra passe'],
+    },
+  },
+  {
+    locale: 'nl',
+    concepts: {
+      first_name: ['voornaam'],
+      last_name: ['achternaam', 'familienaam'],
+      phone: ['telefoon', 'telefoonnummer', 'mobiel'],
+      street: ['straat', 'adres', 'straatnaam'],
+      city: ['plaats', 'woonplaats', 'stad'],
+      postal_code: ['postcode'],
+      state: ['provincie'],
+      country: ['land'],
+      company: ['bedrijf', 'bedrijfsnaam', 'organisatie'],
+      birth_date: ['geboortedatum'],
+      gender: ['geslacht'],
+      message: ['bericht', 'opmerkingen'],
+      password: ['wachtwoord'],
+    },
+  },
+  {
+    locale: 'pl',
+    concepts: {
+      first_name: ['imię'],
+      last_name: ['nazwisko'],
+      phone: ['telefon', 'numer telefonu'],
+      street: ['ulica', 'adres'],
+      city: ['miasto', 'miejscowość'],
+      postal_code: ['kod pocztowy'],
+      state: ['województwo'],
+      country: ['kraj'],
+      company: ['firma', 'nazwa firmy'],
+      birth_date: ['data urodzenia'],
+      gender: ['płeć'],
+      message: ['wiadomość', 'uwagi'],
+      password: ['hasło'],
+    },
+  },
+  {
+    locale: 'ru',
+    concepts: {
+      full_name: ['фио', 'полное имя'],
+      first_name: ['имя'],
+      middle_name: ['отчество'],
+      last_name: ['фамилия'],
+      email: ['электронная почта', 'почта', 'эл почта'],
+      phone: ['телефон', 'номер телефона', 'мобильный'],
+      street: ['адрес', 'улица'],
+      city: ['город', 'населённый пункт'],
+      postal_code: ['индекс', 'почтовый индекс'],
+      state: ['область', 'регион', 'край'],
+      country: ['страна'],
+      company: ['компания', 'организация'],
+      job_title: ['должность'],
+      birth_date: ['дата рождения'],
+      gender: ['пол'],
+      message: ['сообщение', 'комментарий'],
+      username: ['логин', 'имя пользователя'],
+      password: ['пароль'],
+    },
+  },
+  {
+    locale: 'ja',
+    concepts: {
+      full_name: ['氏名', 'お名前', '名前'],
+      first_name: ['名', '下の名前'],
+      last_name: ['姓', '苗字', '名字'],
+      email: ['メールアドレス', 'メール'],
+      phone: ['電話番号', '電話', '携帯電話'],
+      street: ['住所', '番地'],
+      city: ['市区町村'],
+      postal_code: ['郵便番号'],
+      state: ['都道府県'],
+      country: ['国'],
+      company: ['会社名', '会社', '企業名'],
+      job_title: ['役職'],
+      birth_date: ['生年月日'],
+      gender: ['性別'],
+      message: ['お問い合わせ内容', 'メッセージ'],
+      password: ['パスワード'],
+    },
+  },
+  {
+    locale: 'zh',
+    concepts: {
+      full_name: ['姓名', '名字'],
+      first_name: ['名'],
+      last_name: ['姓'],
+      email: ['电子邮件', '邮箱', '電子郵件'],
+      phone: ['电话', '手机', '电话号码', '電話', '手機'],
+      street: ['地址', '街道'],
+      city: ['城市', '市'],
+      postal_code: ['邮编', '邮政编码', '郵遞區號'],
+      state: ['省', '省份'],
+      country: ['国家', '國家'],
+      company: ['公司', '单位', '公司名称'],
+      job_title: ['职位', '職位'],
+      birth_date: ['出生日期', '生日'],
+      gender: ['性别', '性別'],
+      message: ['留言', '备注'],
+      password: ['密码', '密碼'],
+    },
+  },
+];
+
+/** The built-in packs, shared by `autoMap` unless a vocabulary is passed in. */
+export const defaultVocabulary = new Vocabulary(BUILTIN_PACKS);